@@ -0,0 +1,169 @@
+import axios, { AxiosInstance } from 'axios';
+import { ConfluenceConfig, ConfluenceOAuthConfig } from './types';
+
+/**
+ * Provides the Authorization header for Confluence requests.
+ * One instance is shared by the API client and all attachment downloads.
+ */
+export interface AuthStrategy {
+  /**
+   * Short description for log output (never includes credentials)
+   */
+  readonly description: string;
+
+  /**
+   * Value of the Authorization header for the next request
+   */
+  getAuthorizationHeader(): Promise<string>;
+
+  /**
+   * Try to obtain new credentials after a 401 response.
+   * Returns true if the failed request should be sent again.
+   */
+  refresh(): Promise<boolean>;
+}
+
+/**
+ * HTTP Basic authentication with username and password/API token
+ */
+export class BasicAuth implements AuthStrategy {
+  readonly description: string;
+  private header: string;
+
+  constructor(username: string, password: string) {
+    this.description = `Basic (${username})`;
+    this.header = `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+  }
+
+  async getAuthorizationHeader(): Promise<string> {
+    return this.header;
+  }
+
+  async refresh(): Promise<boolean> {
+    return false;
+  }
+}
+
+/**
+ * Bearer token authentication with a Personal Access Token (Confluence Server/Data Center)
+ */
+export class BearerTokenAuth implements AuthStrategy {
+  readonly description = 'Personal Access Token';
+  private token: string;
+
+  constructor(token: string) {
+    this.token = token;
+  }
+
+  async getAuthorizationHeader(): Promise<string> {
+    return `Bearer ${this.token}`;
+  }
+
+  async refresh(): Promise<boolean> {
+    return false;
+  }
+}
+
+/**
+ * OAuth 2.0 access token that is refreshed with the refresh token when it expires or is rejected
+ */
+export class OAuthAuth implements AuthStrategy {
+  readonly description = 'OAuth 2.0';
+  private config: ConfluenceOAuthConfig;
+  private accessToken: string;
+  private refreshToken?: string;
+  private expiresAt?: number;
+  private pendingRefresh: Promise<boolean> | null = null;
+
+  constructor(config: ConfluenceOAuthConfig) {
+    this.config = config;
+    this.accessToken = config.accessToken;
+    this.refreshToken = config.refreshToken;
+  }
+
+  async getAuthorizationHeader(): Promise<string> {
+    // Refresh ahead of time if we know the token is about to expire
+    if (this.expiresAt && Date.now() > this.expiresAt - 60000) {
+      await this.refresh();
+    }
+    return `Bearer ${this.accessToken}`;
+  }
+
+  async refresh(): Promise<boolean> {
+    // Concurrent requests share a single refresh
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.requestNewToken().finally(() => {
+        this.pendingRefresh = null;
+      });
+    }
+    return this.pendingRefresh;
+  }
+
+  private async requestNewToken(): Promise<boolean> {
+    if (!this.refreshToken || !this.config.clientId || !this.config.clientSecret) {
+      console.log('⚠️  OAuth access token rejected and no refresh token/client credentials configured');
+      return false;
+    }
+
+    try {
+      console.log('🔑 Refreshing OAuth access token...');
+      const response = await axios.post(this.config.tokenUrl, {
+        grant_type: 'refresh_token',
+        client_id: this.config.clientId,
+        client_secret: this.config.clientSecret,
+        refresh_token: this.refreshToken,
+      }, {
+        headers: { 'Content-Type': 'application/json' },
+      });
+
+      this.accessToken = response.data.access_token;
+      // Rotating refresh tokens replace the previous one
+      if (response.data.refresh_token) {
+        this.refreshToken = response.data.refresh_token;
+      }
+      this.expiresAt = response.data.expires_in ? Date.now() + response.data.expires_in * 1000 : undefined;
+      console.log('✅ OAuth access token refreshed');
+      return true;
+    } catch (error: any) {
+      console.error(`❌ Failed to refresh OAuth access token: ${error.response?.status || error.message}`);
+      return false;
+    }
+  }
+}
+
+/**
+ * Create the authentication strategy configured in `loadConfig`
+ */
+export function createAuthStrategy(config: ConfluenceConfig): AuthStrategy {
+  switch (config.authType) {
+    case 'pat':
+      return new BearerTokenAuth(config.personalAccessToken!);
+    case 'oauth':
+      return new OAuthAuth(config.oauth!);
+    case 'basic':
+    default:
+      return new BasicAuth(config.username!, config.password!);
+  }
+}
+
+/**
+ * Add the Authorization header to every request of an HTTP client and retry once after refreshing
+ * the credentials when a request is rejected with 401
+ */
+export function applyAuthStrategy(client: AxiosInstance, auth: AuthStrategy): AxiosInstance {
+  client.interceptors.request.use(async (requestConfig) => {
+    requestConfig.headers.Authorization = await auth.getAuthorizationHeader();
+    return requestConfig;
+  });
+
+  client.interceptors.response.use(undefined, async (error) => {
+    const requestConfig = error.config;
+    if (error.response?.status === 401 && requestConfig && !requestConfig._authRetried && await auth.refresh()) {
+      requestConfig._authRetried = true;
+      return client.request(requestConfig);
+    }
+    throw error;
+  });
+
+  return client;
+}
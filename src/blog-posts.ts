@@ -0,0 +1,52 @@
+import { ConfluencePage } from './types';
+
+/**
+ * Create the date-based paths of blog posts (`blog/YYYY/MM/DD/<slug>`, without extension), keyed by
+ * post ID. Confluence allows several posts with the same title, so when posts of the same day would
+ * share a path, every post but the first one published gets its ID appended to the slug.
+ */
+export function createBlogPostPaths(pages: ConfluencePage[]): Map<string, string> {
+  const posts = pages
+    .filter(page => page.type === 'blogpost')
+    .sort((a, b) => getPublishDate(a).localeCompare(getPublishDate(b)) || a.id.localeCompare(b.id, undefined, { numeric: true }));
+
+  const paths = new Map<string, string>();
+  const usedPaths = new Set<string>();
+  for (const post of posts) {
+    const slug = createSlug(post.title) || post.id;
+    let postPath = `blog/${getPostingDay(post)}/${slug}`;
+    if (usedPaths.has(postPath)) {
+      postPath = `${postPath}-${post.id}`;
+    }
+    usedPaths.add(postPath);
+    paths.set(post.id, postPath);
+  }
+  return paths;
+}
+
+/**
+ * Day a blog post was published (`YYYY/MM/DD`), which Confluence links to blog posts include
+ */
+export function getPostingDay(post: ConfluencePage): string {
+  const published = new Date(getPublishDate(post) || 0);
+  const year = String(published.getUTCFullYear());
+  const month = String(published.getUTCMonth() + 1).padStart(2, '0');
+  const day = String(published.getUTCDate()).padStart(2, '0');
+  return `${year}/${month}/${day}`;
+}
+
+function getPublishDate(post: ConfluencePage): string {
+  return post.history?.createdDate || post.version?.when || '';
+}
+
+/**
+ * Lower-case words of a title joined with hyphens, accents removed
+ */
+function createSlug(title: string): string {
+  return title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // Strip accents
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
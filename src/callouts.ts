@@ -0,0 +1,141 @@
+/**
+ * Markdown syntax for Confluence panels:
+ * - `github`: GitHub alerts (`> [!NOTE]`)
+ * - `wikijs`: Wiki.js blockquotes with a class (`{.is-info}`)
+ * - `mkdocs`: MkDocs admonitions (`!!! info "Title"`)
+ */
+export type CalloutStyle = 'github' | 'wikijs' | 'mkdocs';
+
+/**
+ * Meaning of a panel, from its macro name or panel type
+ */
+export type CalloutType = 'info' | 'success' | 'warning' | 'danger' | 'neutral';
+
+const CALLOUT_STYLES: CalloutStyle[] = ['github', 'wikijs', 'mkdocs'];
+
+/**
+ * Panel macros and the Cloud editor panel types, by the colour Confluence shows them in
+ */
+const PANEL_TYPES: Record<string, CalloutType> = {
+  info: 'info',
+  tip: 'success',
+  note: 'warning',
+  warning: 'danger',
+  panel: 'neutral',
+  // Panel types of the Cloud editor (ADF)
+  success: 'success',
+  error: 'danger',
+  custom: 'neutral',
+};
+
+/**
+ * ADF panel types that differ from the macro of the same name
+ */
+const ADF_PANEL_TYPES: Record<string, CalloutType> = {
+  note: 'info',
+  warning: 'warning',
+};
+
+const GITHUB_ALERTS: Record<CalloutType, string> = {
+  info: 'NOTE',
+  success: 'TIP',
+  warning: 'WARNING',
+  danger: 'CAUTION',
+  neutral: 'NOTE',
+};
+
+const WIKIJS_CLASSES: Record<CalloutType, string | undefined> = {
+  info: 'is-info',
+  success: 'is-success',
+  warning: 'is-warning',
+  danger: 'is-danger',
+  neutral: undefined,
+};
+
+const MKDOCS_ADMONITIONS: Record<CalloutType, string> = {
+  info: 'info',
+  success: 'tip',
+  warning: 'warning',
+  danger: 'danger',
+  neutral: 'note',
+};
+
+/**
+ * Parse a `--callout-style` option value
+ */
+export function parseCalloutStyle(value: string | undefined): CalloutStyle {
+  const style = (value || 'github') as CalloutStyle;
+  if (!CALLOUT_STYLES.includes(style)) {
+    throw new Error(`Invalid callout style "${value}". Use one of: ${CALLOUT_STYLES.join(', ')}`);
+  }
+  return style;
+}
+
+/**
+ * Callout type of a panel macro (`info`, `note`, `warning`, `tip`, `panel`), or undefined for other macros
+ */
+export function getPanelMacroType(macroName: string): CalloutType | undefined {
+  return ['info', 'tip', 'note', 'warning', 'panel'].includes(macroName) ? PANEL_TYPES[macroName] : undefined;
+}
+
+/**
+ * Callout type of a Cloud editor panel (`panel-type` attribute of an ADF panel node)
+ */
+export function getAdfPanelType(panelType: string): CalloutType {
+  const type = panelType.trim().toLowerCase();
+  return ADF_PANEL_TYPES[type] || PANEL_TYPES[type] || 'neutral';
+}
+
+/**
+ * Render a callout with an optional title around Markdown content
+ */
+export function renderCallout(style: CalloutStyle, type: CalloutType, content: string, title?: string): string {
+  const body = content.trim();
+
+  if (style === 'mkdocs') {
+    const heading = `!!! ${MKDOCS_ADMONITIONS[type]}${title ? ` "${title}"` : ''}`;
+    return body ? `${heading}\n\n${indent(body, '    ')}` : heading;
+  }
+
+  const lines: string[] = [];
+  if (style === 'github') {
+    lines.push(`[!${GITHUB_ALERTS[type]}]`);
+  }
+  if (title) {
+    lines.push(`**${title}**`);
+  }
+  if (body) {
+    if (title) {
+      lines.push('');
+    }
+    lines.push(...body.split('\n'));
+  }
+
+  const blockquote = indent(lines.join('\n'), '> ');
+  const className = WIKIJS_CLASSES[type];
+  return style === 'wikijs' && className ? `${blockquote}\n{.${className}}` : blockquote;
+}
+
+/**
+ * Turn GitHub alerts of exported Markdown files into Wiki.js callouts
+ */
+export function convertGitHubAlertsToWikiJs(markdown: string): string {
+  return markdown.replace(
+    /^> \[!(NOTE|TIP|IMPORTANT|WARNING|CAUTION)\][ \t]*\n((?:>.*(?:\n|$))*)/gm,
+    (match, alert: string, quote: string) => {
+      const type = (Object.keys(GITHUB_ALERTS) as CalloutType[]).find(key => GITHUB_ALERTS[key] === alert) || 'info';
+      const content = quote.replace(/\n$/, '').split('\n').map(line => line.replace(/^> ?/, '')).join('\n');
+      return `${renderCallout('wikijs', type, content)}\n`;
+    }
+  );
+}
+
+/**
+ * Prefix every line, empty lines get the prefix without its trailing whitespace
+ */
+function indent(text: string, prefix: string): string {
+  return text
+    .split('\n')
+    .map(line => (line ? `${prefix}${line}` : prefix.trimEnd()))
+    .join('\n');
+}
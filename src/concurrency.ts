@@ -0,0 +1,39 @@
+/**
+ * Run an async function for every item with at most `limit` calls in flight.
+ * Results are returned in the order of the input items, regardless of completion order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  // Each worker picks the next unprocessed item until all items are taken
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(Math.floor(limit) || 1, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
+
+/**
+ * Parse a `--concurrency` option value
+ */
+export function parseConcurrency(value: string | undefined): number {
+  if (value === undefined) {
+    return 1;
+  }
+
+  const concurrency = parseInt(value, 10);
+  if (isNaN(concurrency) || concurrency < 1) {
+    throw new Error(`Invalid concurrency "${value}". Use a number of 1 or more`);
+  }
+  return concurrency;
+}
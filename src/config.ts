@@ -1,32 +1,112 @@
 import dotenv from 'dotenv';
-import { ConfluenceConfig, WikiJsConfig } from './types';
+import { ConfluenceConfig, RetryConfig, WikiJsConfig } from './types';
+import { normalizeBaseUrl } from './confluence-client';
 
 dotenv.config();
 
 export function loadConfig(): ConfluenceConfig {
-  const requiredEnvVars = {
-    baseUrl: process.env.CONFLUENCE_BASE_URL,
-    username: process.env.CONFLUENCE_USERNAME,
-    password: process.env.CONFLUENCE_PASSWORD,
+  const authType = parseAuthType(process.env.CONFLUENCE_AUTH_TYPE);
+
+  // Required environment variables depend on the authentication type
+  const requiredEnvVars: { [name: string]: string | undefined } = {
+    CONFLUENCE_BASE_URL: process.env.CONFLUENCE_BASE_URL,
   };
+  if (authType === 'basic') {
+    requiredEnvVars.CONFLUENCE_USERNAME = process.env.CONFLUENCE_USERNAME;
+    requiredEnvVars.CONFLUENCE_PASSWORD = process.env.CONFLUENCE_PASSWORD;
+  } else if (authType === 'pat') {
+    requiredEnvVars.CONFLUENCE_PAT = process.env.CONFLUENCE_PAT;
+  } else {
+    requiredEnvVars.CONFLUENCE_OAUTH_ACCESS_TOKEN = process.env.CONFLUENCE_OAUTH_ACCESS_TOKEN;
+  }
 
   // Check for required environment variables
-  for (const [key, value] of Object.entries(requiredEnvVars)) {
+  for (const [name, value] of Object.entries(requiredEnvVars)) {
     if (!value) {
-      throw new Error(`Missing required environment variable: CONFLUENCE_${key.toUpperCase()}`);
+      throw new Error(`Missing required environment variable: ${name}`);
     }
   }
 
   return {
-    baseUrl: requiredEnvVars.baseUrl!,
-    username: requiredEnvVars.username!,
-    password: requiredEnvVars.password!,
+    baseUrl: normalizeBaseUrl(process.env.CONFLUENCE_BASE_URL!),
+    authType,
+    username: process.env.CONFLUENCE_USERNAME,
+    password: process.env.CONFLUENCE_PASSWORD,
+    personalAccessToken: process.env.CONFLUENCE_PAT,
+    oauth: authType === 'oauth' ? {
+      accessToken: process.env.CONFLUENCE_OAUTH_ACCESS_TOKEN!,
+      refreshToken: process.env.CONFLUENCE_OAUTH_REFRESH_TOKEN,
+      clientId: process.env.CONFLUENCE_OAUTH_CLIENT_ID,
+      clientSecret: process.env.CONFLUENCE_OAUTH_CLIENT_SECRET,
+      tokenUrl: process.env.CONFLUENCE_OAUTH_TOKEN_URL || 'https://auth.atlassian.com/oauth/token',
+    } : undefined,
     outputDir: process.env.OUTPUT_DIR || './exports',
     spaceKey: process.env.SPACE_KEY,
     ignoreSSL: process.env.IGNORE_SSL_ERRORS === 'true',
+    apiVersion: parseApiVersion(process.env.CONFLUENCE_API_VERSION),
+    retry: loadRetryConfig('CONFLUENCE'),
   };
 }
 
+/**
+ * Retry and rate limit settings, e.g. CONFLUENCE_MAX_RETRIES or WIKIJS_REQUESTS_PER_SECOND
+ */
+function loadRetryConfig(prefix: string): RetryConfig {
+  return {
+    maxRetries: parseNumber(`${prefix}_MAX_RETRIES`, 5),
+    baseDelayMs: parseNumber(`${prefix}_RETRY_DELAY_MS`, 1000),
+    maxDelayMs: parseNumber(`${prefix}_RETRY_MAX_DELAY_MS`, 60000),
+    requestsPerSecond: parseNumber(`${prefix}_REQUESTS_PER_SECOND`, 0),
+  };
+}
+
+function parseNumber(name: string, defaultValue: number): number {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === '') {
+    return defaultValue;
+  }
+
+  const number = Number(value);
+  if (isNaN(number) || number < 0) {
+    throw new Error(`Invalid ${name} "${value}". Use a non-negative number`);
+  }
+  return number;
+}
+
+function parseAuthType(value?: string): 'basic' | 'pat' | 'oauth' {
+  // Without an explicit type, use the first kind of credentials that is configured
+  if (!value) {
+    if (process.env.CONFLUENCE_PAT && !process.env.CONFLUENCE_USERNAME) {
+      return 'pat';
+    }
+    if (process.env.CONFLUENCE_OAUTH_ACCESS_TOKEN && !process.env.CONFLUENCE_USERNAME) {
+      return 'oauth';
+    }
+    return 'basic';
+  }
+
+  const authType = value.trim().toLowerCase();
+  if (authType !== 'basic' && authType !== 'pat' && authType !== 'oauth') {
+    throw new Error(`Invalid CONFLUENCE_AUTH_TYPE "${value}". Use basic, pat or oauth`);
+  }
+  return authType;
+}
+
+function parseApiVersion(value?: string): 'auto' | 'v1' | 'v2' {
+  const apiVersion = (value || 'auto').trim().toLowerCase();
+  if (apiVersion !== 'auto' && apiVersion !== 'v1' && apiVersion !== 'v2') {
+    throw new Error(`Invalid CONFLUENCE_API_VERSION "${value}". Use auto, v1 or v2`);
+  }
+  return apiVersion;
+}
+
+/**
+ * Paths of local modules with macro handlers, comma-separated in MACRO_HANDLERS (or the given value)
+ */
+export function loadMacroHandlerPaths(value: string | undefined = process.env.MACRO_HANDLERS): string[] {
+  return (value || '').split(',').map(modulePath => modulePath.trim()).filter(Boolean);
+}
+
 export function loadWikiJsConfig(): WikiJsConfig {
   const requiredEnvVars = {
     baseUrl: process.env.WIKIJS_BASE_URL,
@@ -45,5 +125,6 @@ export function loadWikiJsConfig(): WikiJsConfig {
     apiKey: requiredEnvVars.apiKey!,
     uploadPath: process.env.WIKIJS_UPLOAD_PATH || '/uploads',
     namespace: (process.env.WIKIJS_NAMESPACE || 'en').trim(),
+    retry: loadRetryConfig('WIKIJS'),
   };
 }
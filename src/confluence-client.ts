@@ -1,32 +1,41 @@
 import axios, { AxiosInstance } from 'axios';
 import https from 'https';
-import { ConfluenceConfig, ConfluencePage, ConfluenceSpace, ConfluenceSearchResult } from './types';
+import { ConfluenceComment, ConfluenceConfig, ConfluenceContentType, ConfluencePage, ConfluencePageRestrictions, ConfluencePageVersion, ConfluenceRestrictionSubjects, ConfluenceSpace, ConfluenceSearchResult } from './types';
+import { ConfluenceV2Client } from './confluence-v2-client';
+import { AuthStrategy, createAuthStrategy, applyAuthStrategy } from './auth';
+import { applyRetryPolicy } from './http-retry';
+import { mapWithConcurrency } from './concurrency';
+import { resolveEffectiveRestrictions } from './restriction-mapping';
 
 export class ConfluenceClient {
   private client: AxiosInstance;
   private config: ConfluenceConfig;
+  private auth: AuthStrategy;
+  private v2Client: ConfluenceV2Client | null = null;
+  private connectionTested = false;
+  private v1Connected = false;
+  private restrictions = new Map<string, Promise<ConfluencePageRestrictions>>();
 
-  constructor(config: ConfluenceConfig) {
-    this.config = config;
-    
-    // Create HTTPS agent that ignores SSL errors if configured
-    const httpsAgent = config.ignoreSSL 
-      ? new https.Agent({ rejectUnauthorized: false })
-      : undefined;
+  constructor(config: ConfluenceConfig, auth?: AuthStrategy) {
+    this.config = { ...config, baseUrl: normalizeBaseUrl(config.baseUrl) };
+    this.auth = auth || createAuthStrategy(config);
     
     // Start with base URL only - we'll determine the correct API path
-    this.client = axios.create({
-      baseURL: config.baseUrl,
-      auth: {
-        username: config.username,
-        password: config.password,
-      },
-      headers: {
-        'Accept': 'application/json',
-        'Content-Type': 'application/json',
-      },
-      httpsAgent,
-    });
+    this.client = this.createHttpClient(this.config.baseUrl);
+  }
+
+  /**
+   * Authentication strategy shared with attachment downloads
+   */
+  getAuthStrategy(): AuthStrategy {
+    return this.auth;
+  }
+
+  /**
+   * Whether the Confluence Cloud REST v2 API is used for fetching pages
+   */
+  get usesV2Api(): boolean {
+    return this.v2Client !== null;
   }
 
   /**
@@ -49,20 +58,28 @@ export class ConfluenceClient {
   }
 
   /**
-   * Get pages from a specific space
+   * Get pages (or blog posts) from a specific space
    */
-  async getPagesFromSpace(spaceKey: string, limit: number = 50, start: number = 0): Promise<ConfluenceSearchResult> {
+  async getPagesFromSpace(
+    spaceKey: string,
+    limit: number = 50,
+    start: number = 0,
+    type: ConfluenceContentType = 'page'
+  ): Promise<ConfluenceSearchResult> {
     try {
       await this.ensureApiPath();
       // Use the correct Confluence API endpoint for getting content from a space
       const response = await this.client.get('/content', {
         params: {
           spaceKey: spaceKey,
-          type: 'page',
+          type,
           status: 'current',
           limit,
           start,
-          expand: 'body.storage,version,ancestors',
+          // The history contains the creation date and author (the publish date of blog posts)
+          expand: type === 'blogpost'
+            ? 'body.storage,version,history,metadata.labels'
+            : 'body.storage,version,ancestors,history,metadata.labels',
         },
       });
       
@@ -76,11 +93,11 @@ export class ConfluenceClient {
       
       // Handle different possible response structures
       if (response.data.results) {
-        return response.data;
+        return { ...response.data, results: response.data.results.map((page: any) => this.withLabels(page)) };
       } else if (Array.isArray(response.data)) {
         // Some Confluence APIs return the array directly
         return {
-          results: response.data,
+          results: response.data.map((page: any) => this.withLabels(page)),
           size: response.data.length,
           start: start,
           limit: limit
@@ -97,14 +114,18 @@ export class ConfluenceClient {
    * Get a specific page by ID
    */
   async getPage(pageId: string): Promise<ConfluencePage> {
+    await this.ensureApiPath();
+    if (this.v2Client) {
+      return this.v2Client.getPage(pageId);
+    }
+
     try {
-      await this.ensureApiPath();
       const response = await this.client.get(`/content/${pageId}`, {
         params: {
-          expand: 'body.storage,version,ancestors',
+          expand: 'body.storage,version,ancestors,history,space,metadata.labels',
         },
       });
-      return response.data;
+      return this.withLabels(response.data);
     } catch (error) {
       throw new Error(`Failed to fetch page ${pageId}: ${error}`);
     }
@@ -114,6 +135,9 @@ export class ConfluenceClient {
    * Search for pages
    */
   async searchPages(query: string, limit: number = 50): Promise<ConfluenceSearchResult> {
+    // CQL search is only offered by the REST v1 API
+    await this.requireV1Api('search pages');
+
     try {
       const response = await this.client.get('/search', {
         params: {
@@ -134,15 +158,219 @@ export class ConfluenceClient {
   }
 
   /**
-   * Get all pages from a space (handles pagination)
+   * Get the direct children of a page
+   */
+  async getChildPages(pageId: string): Promise<ConfluencePage[]> {
+    await this.ensureApiPath();
+    if (this.v2Client) {
+      return this.v2Client.getChildPages(pageId);
+    }
+
+    const children: ConfluencePage[] = [];
+    let start = 0;
+    const limit = 50;
+
+    try {
+      while (true) {
+        const response = await this.client.get(`/content/${pageId}/child/page`, {
+          params: {
+            limit,
+            start,
+            expand: 'body.storage,version,ancestors,history,metadata.labels',
+          },
+        });
+        const results: ConfluencePage[] = response.data.results || [];
+        children.push(...results.map(page => this.withLabels(page)));
+
+        if (results.length < limit) {
+          break;
+        }
+        start += limit;
+      }
+    } catch (error) {
+      throw new Error(`Failed to fetch child pages of ${pageId}: ${error}`);
+    }
+
+    return children;
+  }
+
+  /**
+   * Get all versions of a page, oldest first
+   */
+  async getPageVersions(pageId: string): Promise<ConfluencePageVersion[]> {
+    await this.ensureApiPath();
+    if (this.v2Client) {
+      return this.v2Client.getPageVersions(pageId);
+    }
+
+    const versions: ConfluencePageVersion[] = [];
+    let start = 0;
+    const limit = 200;
+
+    try {
+      while (true) {
+        const response = await this.client.get(`/content/${pageId}/version`, {
+          params: { limit, start },
+        });
+        const results: ConfluencePageVersion[] = response.data.results || [];
+        versions.push(...results);
+
+        if (results.length < limit) {
+          break;
+        }
+        start += limit;
+      }
+    } catch (error) {
+      throw new Error(`Failed to fetch versions of page ${pageId}: ${error}`);
+    }
+
+    return versions.sort((a, b) => a.number - b.number);
+  }
+
+  /**
+   * Get a page as it was in a specific version
+   */
+  async getPageAtVersion(pageId: string, versionNumber: number): Promise<ConfluencePage> {
+    await this.ensureApiPath();
+    if (this.v2Client) {
+      return this.v2Client.getPageAtVersion(pageId, versionNumber);
+    }
+
+    try {
+      const response = await this.client.get(`/content/${pageId}`, {
+        params: {
+          status: 'historical',
+          version: versionNumber,
+          expand: 'body.storage,version,history',
+        },
+      });
+      return response.data;
+    } catch (error) {
+      throw new Error(`Failed to fetch version ${versionNumber} of page ${pageId}: ${error}`);
+    }
+  }
+
+  /**
+   * Get the footer and inline comments of a page, including replies, in Confluence order.
+   * Comments always come from the REST v1 content API, also when pages are fetched with v2.
+   */
+  async getComments(pageId: string): Promise<ConfluenceComment[]> {
+    await this.requireV1Api(`fetch comments of page ${pageId}`);
+
+    const comments: ConfluenceComment[] = [];
+    let start = 0;
+    const limit = 100;
+
+    try {
+      while (true) {
+        const response = await this.client.get(`/content/${pageId}/child/comment`, {
+          params: {
+            depth: 'all',
+            location: ['footer', 'inline'],
+            limit,
+            start,
+            expand: 'body.storage,history,ancestors,extensions.inlineProperties,extensions.resolution',
+          },
+          // Repeat the location parameter instead of using location[]=...
+          paramsSerializer: { indexes: null },
+        });
+        const results: any[] = response.data.results || [];
+        comments.push(...results.map(comment => this.toComment(comment)));
+
+        if (results.length < limit) {
+          break;
+        }
+        start += limit;
+      }
+    } catch (error) {
+      throw new Error(`Failed to fetch comments of page ${pageId}: ${error}`);
+    }
+
+    return comments;
+  }
+
+  /**
+   * Get the view and edit restrictions set directly on a page
+   */
+  async getRestrictions(pageId: string): Promise<ConfluencePageRestrictions> {
+    // Ancestors are shared by many pages, so every page is only requested once
+    let restrictions = this.restrictions.get(pageId);
+    if (!restrictions) {
+      restrictions = this.fetchRestrictions(pageId);
+      this.restrictions.set(pageId, restrictions);
+    }
+    return restrictions;
+  }
+
+  /**
+   * Get the restrictions that apply to a page, including view restrictions inherited from ancestors
+   */
+  async getEffectiveRestrictions(page: ConfluencePage): Promise<ConfluencePageRestrictions> {
+    return resolveEffectiveRestrictions(page, pageId => this.getRestrictions(pageId));
+  }
+
+  /**
+   * Get a page and all of its descendants, each parent followed by its children
+   */
+  async getPageTree(rootPageId: string, concurrency: number = 1): Promise<ConfluencePage[]> {
+    const root = await this.getPage(rootPageId);
+    const childrenById = new Map<string, ConfluencePage[]>();
+
+    // Walk the tree level by level, fetching the children of a level in parallel
+    let level = [root];
+    while (level.length > 0) {
+      const levelChildren = await mapWithConcurrency(level, concurrency, page => this.getChildPages(page.id));
+      level.forEach((page, index) => childrenById.set(page.id, levelChildren[index]));
+      level = levelChildren.flat().filter(child => !childrenById.has(child.id));
+    }
+
+    const pages: ConfluencePage[] = [];
+    const addWithDescendants = (page: ConfluencePage) => {
+      pages.push(page);
+      (childrenById.get(page.id) || []).forEach(addWithDescendants);
+    };
+    addWithDescendants(root);
+
+    console.log(`🌳 Found ${pages.length} pages below and including "${root.title}"`);
+    return pages;
+  }
+
+  /**
+   * Get all pages from a space (handles pagination). With the v2 API, the labels of up to
+   * `concurrency` pages are fetched in parallel; the v1 API returns them with the pages.
+   */
+  async getAllPagesFromSpace(spaceKey: string, concurrency: number = 1): Promise<ConfluencePage[]> {
+    await this.ensureApiPath();
+    if (this.v2Client) {
+      return this.v2Client.getAllPagesFromSpace(spaceKey, concurrency);
+    }
+    return this.getAllContentFromSpace(spaceKey, 'page');
+  }
+
+  /**
+   * Get all blog posts from a space (handles pagination), see `getAllPagesFromSpace` for `concurrency`
+   */
+  async getAllBlogPostsFromSpace(spaceKey: string, concurrency: number = 1): Promise<ConfluencePage[]> {
+    await this.ensureApiPath();
+    if (this.v2Client) {
+      return this.v2Client.getAllBlogPostsFromSpace(spaceKey, concurrency);
+    }
+
+    const posts = await this.getAllContentFromSpace(spaceKey, 'blogpost');
+    console.log(`📰 Fetched ${posts.length} blog posts from space ${spaceKey}`);
+    return posts;
+  }
+
+  /**
+   * Page through all content of one type in a space
    */
-  async getAllPagesFromSpace(spaceKey: string): Promise<ConfluencePage[]> {
+  private async getAllContentFromSpace(spaceKey: string, type: ConfluenceContentType): Promise<ConfluencePage[]> {
     const allPages: ConfluencePage[] = [];
     let start = 0;
     const limit = 50;
 
     while (true) {
-      const result = await this.getPagesFromSpace(spaceKey, limit, start);
+      const result = await this.getPagesFromSpace(spaceKey, limit, start, type);
       
       // Safety check for results
       if (!result || !result.results || !Array.isArray(result.results)) {
@@ -170,36 +398,165 @@ export class ConfluenceClient {
       '/wiki/rest/api/space',   // Standard wiki path (some installations)
       '/confluence/rest/api/space' // Alternative path
     ];
+    const apiVersion = this.config.apiVersion || 'auto';
 
     for (const endpoint of endpoints) {
       try {
-        console.log(`Testing endpoint: ${this.client.defaults.baseURL}${endpoint}`);
-        await this.client.get(endpoint);
+        console.log(`Testing endpoint: ${this.config.baseUrl}${endpoint}`);
+        await this.client.get(`${this.config.baseUrl}${endpoint}`);
         console.log(`✅ Successfully connected using endpoint: ${endpoint}`);
         
         // Update the baseURL to include the working API path
         const apiPath = endpoint.replace('/space', '');
         this.client.defaults.baseURL = `${this.config.baseUrl}${apiPath}`;
         console.log(`📡 Updated base URL to: ${this.client.defaults.baseURL}`);
-        return;
+        this.v1Connected = true;
+        break;
       } catch (error: any) {
         console.log(`❌ Failed with endpoint ${endpoint}: ${error.response?.status || error.message}`);
       }
     }
     
-    throw new Error('Unable to connect to Confluence API with any known endpoint');
+    // Confluence Cloud also offers the REST v2 API with cursor pagination
+    if (apiVersion !== 'v1') {
+      const v2Endpoints = ['/wiki/api/v2', '/api/v2'];
+      for (const endpoint of v2Endpoints) {
+        try {
+          console.log(`Testing REST v2 endpoint: ${this.config.baseUrl}${endpoint}/spaces`);
+          await this.client.get(`${this.config.baseUrl}${endpoint}/spaces`, { params: { limit: 1 } });
+          this.v2Client = new ConfluenceV2Client(this.createHttpClient(`${this.config.baseUrl}${endpoint}`), this.config.baseUrl);
+          console.log(`✅ Using Confluence REST v2 API: ${this.config.baseUrl}${endpoint}`);
+          break;
+        } catch (error: any) {
+          console.log(`❌ REST v2 not available at ${endpoint}: ${error.response?.status || error.message}`);
+        }
+      }
+      
+      if (!this.v2Client && apiVersion === 'v2') {
+        throw new Error('Confluence REST v2 API is not available (CONFLUENCE_API_VERSION=v2)');
+      }
+    }
+    
+    if (!this.v1Connected && !this.v2Client) {
+      throw new Error('Unable to connect to Confluence API with any known endpoint');
+    }
+    
+    this.connectionTested = true;
+  }
+
+  /**
+   * Fail if the REST v1 content API is not reachable, which comments, restrictions and search need.
+   * Commands call this before their first request, so they fail once instead of for every page.
+   */
+  async requireV1Api(purpose: string): Promise<void> {
+    await this.ensureApiPath();
+    if (!this.v1Connected) {
+      throw new Error(`Failed to ${purpose}: the REST v1 content API is not available at ${this.config.baseUrl}`);
+    }
   }
 
   /**
    * Ensure the client has the correct API base URL
    */
   private async ensureApiPath(): Promise<void> {
-    // If the baseURL already includes an API path, we're good
-    if (this.client.defaults.baseURL?.includes('/rest/api')) {
+    // The API version is only known once the endpoints were tested
+    if (this.connectionTested) {
       return;
     }
     
     // Otherwise, determine the correct path
     await this.testConnection();
   }
+
+  /**
+   * Copy the label names from the expanded `metadata.labels` into `labels`
+   */
+  private withLabels(page: any): ConfluencePage {
+    const labels: { name: string }[] = page.metadata?.labels?.results || [];
+    return { ...page, labels: labels.map(label => label.name) };
+  }
+
+  private async fetchRestrictions(pageId: string): Promise<ConfluencePageRestrictions> {
+    await this.requireV1Api(`fetch restrictions of page ${pageId}`);
+
+    try {
+      const response = await this.client.get(`/content/${pageId}/restriction`, {
+        params: { expand: 'restrictions.user,restrictions.group', limit: 100 },
+      });
+      const byOperation = new Map<string, any>(
+        (response.data.results || []).map((result: any) => [result.operation, result.restrictions])
+      );
+      return {
+        read: this.toRestrictionSubjects(byOperation.get('read')),
+        update: this.toRestrictionSubjects(byOperation.get('update')),
+      };
+    } catch (error) {
+      throw new Error(`Failed to fetch restrictions of page ${pageId}: ${error}`);
+    }
+  }
+
+  /**
+   * Convert the expanded users and groups of one restriction operation
+   */
+  private toRestrictionSubjects(restrictions: any): ConfluenceRestrictionSubjects {
+    const users: any[] = restrictions?.user?.results || [];
+    const groups: any[] = restrictions?.group?.results || [];
+    return {
+      users: users.map(user => ({
+        accountId: user.accountId,
+        username: user.username,
+        userKey: user.userKey,
+        displayName: user.displayName || user.publicName,
+      })),
+      groups: groups.map(group => group.name),
+    };
+  }
+
+  /**
+   * Convert a comment of the content API into the exporter's comment shape
+   */
+  private toComment(comment: any): ConfluenceComment {
+    const ancestors: { id: string }[] = comment.ancestors || [];
+    return {
+      id: String(comment.id),
+      body: comment.body?.storage?.value || '',
+      author: comment.history?.createdBy?.displayName,
+      created: comment.history?.createdDate,
+      location: comment.extensions?.location === 'inline' ? 'inline' : 'footer',
+      // Ancestors are ordered from the thread root to the direct parent
+      parentId: ancestors.length > 0 ? String(ancestors[ancestors.length - 1].id) : undefined,
+      markerRef: comment.extensions?.inlineProperties?.markerRef,
+      selection: comment.extensions?.inlineProperties?.originalSelection,
+      resolved: comment.extensions?.resolution?.status === 'resolved',
+    };
+  }
+
+  /**
+   * Create an HTTP client with the configured authentication and SSL settings
+   */
+  private createHttpClient(baseURL: string): AxiosInstance {
+    // Create HTTPS agent that ignores SSL errors if configured
+    const httpsAgent = this.config.ignoreSSL 
+      ? new https.Agent({ rejectUnauthorized: false })
+      : undefined;
+    
+    const client = axios.create({
+      baseURL,
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+      },
+      httpsAgent,
+    });
+    applyAuthStrategy(client, this.auth);
+    return applyRetryPolicy(client, this.config.retry);
+  }
+}
+
+/**
+ * Base URL without trailing slashes or REST API path, e.g. `https://example.com/wiki/rest/api/` becomes
+ * `https://example.com/wiki`, so the API endpoints (and the v2 API) are always detected from the same URL
+ */
+export function normalizeBaseUrl(baseUrl: string): string {
+  return baseUrl.trim().replace(/\/+$/, '').replace(/\/rest\/api$/, '');
 }
@@ -0,0 +1,390 @@
+import { AxiosInstance } from 'axios';
+import { ConfluencePage, ConfluencePageAncestor, ConfluencePageVersion } from './types';
+import { mapWithConcurrency } from './concurrency';
+
+/**
+ * Page as returned by the Confluence Cloud REST v2 API
+ */
+interface V2Page {
+  id: string;
+  title: string;
+  status?: string;
+  spaceId?: string;
+  parentId?: string | null;
+  parentType?: string | null;
+  authorId?: string;
+  createdAt?: string;
+  version?: {
+    number: number;
+    createdAt?: string;
+    authorId?: string;
+    message?: string;
+  };
+  body?: {
+    storage?: {
+      value: string;
+    };
+  };
+  _links?: {
+    webui?: string;
+  };
+}
+
+/**
+ * Version of a page as returned by the versions endpoint of the REST v2 API
+ */
+interface V2Version {
+  number: number;
+  createdAt?: string;
+  authorId?: string;
+  message?: string;
+}
+
+interface V2ListResponse<T> {
+  results: T[];
+  _links?: {
+    next?: string;
+  };
+}
+
+/**
+ * Confluence Cloud REST v2 backend (`/wiki/api/v2`) with cursor pagination.
+ * Pages are returned in the same `ConfluencePage` shape as the v1 API.
+ */
+export class ConfluenceV2Client {
+  private client: AxiosInstance;
+  private siteUrl: string;
+  private spaceIds = new Map<string, string>();
+  private spaceKeys = new Map<string, string>();
+  private userNames = new Map<string, string>();
+
+  /**
+   * @param client Axios instance whose baseURL points to the v2 API (e.g. `https://example.atlassian.net/wiki/api/v2`)
+   * @param siteUrl Confluence base URL, used to follow the `_links.next` cursor links
+   */
+  constructor(client: AxiosInstance, siteUrl: string) {
+    this.client = client;
+    this.siteUrl = siteUrl;
+  }
+
+  /**
+   * Resolve the numeric space ID that the v2 API uses instead of space keys
+   */
+  async getSpaceId(spaceKey: string): Promise<string> {
+    const cached = this.spaceIds.get(spaceKey);
+    if (cached) {
+      return cached;
+    }
+
+    const response = await this.client.get('/spaces', { params: { keys: spaceKey } });
+    const space = response.data.results?.[0];
+    if (!space) {
+      throw new Error(`Space ${spaceKey} not found`);
+    }
+
+    this.spaceIds.set(spaceKey, String(space.id));
+    return String(space.id);
+  }
+
+  /**
+   * Resolve the key of a space from its numeric ID
+   */
+  async getSpaceKey(spaceId: string): Promise<string> {
+    const cached = this.spaceKeys.get(spaceId);
+    if (cached) {
+      return cached;
+    }
+
+    const response = await this.client.get(`/spaces/${spaceId}`);
+    this.spaceKeys.set(spaceId, response.data.key);
+    return response.data.key;
+  }
+
+  /**
+   * Get all current pages of a space, including their storage format body.
+   * Labels are fetched for up to `concurrency` pages in parallel.
+   */
+  async getAllPagesFromSpace(spaceKey: string, concurrency: number = 1): Promise<ConfluencePage[]> {
+    try {
+      const spaceId = await this.getSpaceId(spaceKey);
+      const pages = await this.getAllResults<V2Page>(`/spaces/${spaceId}/pages`, {
+        'body-format': 'storage',
+        status: 'current',
+        limit: 250,
+      });
+      console.log(`📊 Fetched ${pages.length} pages from space ${spaceKey} (REST v2)`);
+
+      // The v2 API only returns the direct parent, so rebuild the ancestor chain from the space's pages
+      const pagesById = new Map(pages.map(page => [page.id, page]));
+      await this.getUserNames(this.getAuthorIds(pages));
+      const labels = await mapWithConcurrency(pages, concurrency, page => this.getLabels('pages', page.id));
+      return pages.map((page, index) => ({
+        ...this.toConfluencePage(page, this.buildAncestors(page, pagesById)),
+        labels: labels[index],
+      }));
+    } catch (error) {
+      throw new Error(`Failed to fetch pages from space ${spaceKey}: ${error}`);
+    }
+  }
+
+  /**
+   * Get all current blog posts of a space, with publish date and author.
+   * Labels are fetched for up to `concurrency` blog posts in parallel.
+   */
+  async getAllBlogPostsFromSpace(spaceKey: string, concurrency: number = 1): Promise<ConfluencePage[]> {
+    try {
+      const spaceId = await this.getSpaceId(spaceKey);
+      const posts = await this.getAllResults<V2Page>(`/spaces/${spaceId}/blogposts`, {
+        'body-format': 'storage',
+        status: 'current',
+        limit: 250,
+      });
+      console.log(`📰 Fetched ${posts.length} blog posts from space ${spaceKey} (REST v2)`);
+
+      await this.getUserNames(this.getAuthorIds(posts));
+      const labels = await mapWithConcurrency(posts, concurrency, post => this.getLabels('blogposts', post.id));
+      return posts.map((post, index) => ({
+        ...this.toConfluencePage(post, []),
+        type: 'blogpost',
+        labels: labels[index],
+      }));
+    } catch (error) {
+      throw new Error(`Failed to fetch blog posts from space ${spaceKey}: ${error}`);
+    }
+  }
+
+  /**
+   * Get a specific page by ID
+   */
+  async getPage(pageId: string): Promise<ConfluencePage> {
+    try {
+      const response = await this.client.get(`/pages/${pageId}`, {
+        params: { 'body-format': 'storage' },
+      });
+      const ancestors = await this.getAncestors(pageId);
+      await this.getUserNames(this.getAuthorIds([response.data]));
+      const page = this.toConfluencePage(response.data, ancestors);
+      page.labels = await this.getLabels('pages', pageId);
+      if (response.data.spaceId) {
+        page.space = { key: await this.getSpaceKey(String(response.data.spaceId)) };
+      }
+      return page;
+    } catch (error) {
+      throw new Error(`Failed to fetch page ${pageId}: ${error}`);
+    }
+  }
+
+  /**
+   * Get all versions of a page, oldest first
+   */
+  async getPageVersions(pageId: string): Promise<ConfluencePageVersion[]> {
+    try {
+      const versions = await this.getAllResults<V2Version>(`/pages/${pageId}/versions`, { limit: 250 });
+      await this.getUserNames(versions.map(version => version.authorId).filter((id): id is string => !!id));
+      return versions
+        .map(version => ({
+          number: version.number,
+          when: version.createdAt,
+          by: version.authorId ? { displayName: this.getUserName(version.authorId) } : undefined,
+          message: version.message || undefined,
+        }))
+        .sort((a, b) => a.number - b.number);
+    } catch (error) {
+      throw new Error(`Failed to fetch versions of page ${pageId}: ${error}`);
+    }
+  }
+
+  /**
+   * Get a page as it was in a specific version
+   */
+  async getPageAtVersion(pageId: string, versionNumber: number): Promise<ConfluencePage> {
+    try {
+      const response = await this.client.get(`/pages/${pageId}`, {
+        params: { 'body-format': 'storage', version: versionNumber },
+      });
+      await this.getUserNames(this.getAuthorIds([response.data]));
+      return this.toConfluencePage(response.data, []);
+    } catch (error) {
+      throw new Error(`Failed to fetch version ${versionNumber} of page ${pageId}: ${error}`);
+    }
+  }
+
+  /**
+   * Get the direct children of a page
+   */
+  async getChildPages(pageId: string): Promise<ConfluencePage[]> {
+    try {
+      const children = await this.getAllResults<V2Page>(`/pages/${pageId}/children`, { limit: 250 });
+      if (children.length === 0) {
+        return [];
+      }
+
+      // The children endpoint does not include bodies, so fetch the child pages in batches.
+      // All children share the ancestors of the parent and the parent itself.
+      const ancestors = await this.getAncestors(pageId, true);
+      const pagesById = new Map(
+        (await this.getPagesById(children.map(child => String(child.id)), { 'body-format': 'storage' }))
+          .map(page => [String(page.id), page])
+      );
+      const pages = children
+        .map(child => pagesById.get(String(child.id)))
+        .filter((page): page is V2Page => !!page);
+      await this.getUserNames(this.getAuthorIds(pages));
+
+      const result: ConfluencePage[] = [];
+      for (const page of pages) {
+        result.push({
+          ...this.toConfluencePage(page, ancestors),
+          labels: await this.getLabels('pages', page.id),
+          space: page.spaceId ? { key: await this.getSpaceKey(String(page.spaceId)) } : undefined,
+        });
+      }
+      return result;
+    } catch (error) {
+      throw new Error(`Failed to fetch child pages of ${pageId}: ${error}`);
+    }
+  }
+
+  /**
+   * Get the ancestors of a page, from the top-level page down to the direct parent
+   * (or down to the page itself with `includePage`)
+   */
+  private async getAncestors(pageId: string, includePage: boolean = false): Promise<ConfluencePageAncestor[]> {
+    const ancestorRefs = await this.getAllResults<{ id: string; type?: string }>(`/pages/${pageId}/ancestors`, { limit: 250 });
+    const ids = ancestorRefs
+      .filter(ancestor => !ancestor.type || ancestor.type === 'page')
+      .map(ancestor => String(ancestor.id));
+    if (includePage) {
+      ids.push(pageId);
+    }
+
+    // The ancestors endpoint only returns IDs, the titles are fetched together
+    const titles = new Map((await this.getPagesById(ids)).map(page => [String(page.id), page.title]));
+    return ids
+      .filter(id => titles.has(id))
+      .map(id => ({ id, title: titles.get(id)! }));
+  }
+
+  /**
+   * Get pages by ID with the pages endpoint, which accepts up to 250 IDs per request
+   */
+  private async getPagesById(ids: string[], params: Record<string, unknown> = {}): Promise<V2Page[]> {
+    const pages: V2Page[] = [];
+    for (let i = 0; i < ids.length; i += 250) {
+      pages.push(...await this.getAllResults<V2Page>('/pages', { ...params, id: ids.slice(i, i + 250).join(','), limit: 250 }));
+    }
+    return pages;
+  }
+
+  /**
+   * Get the label names of a page or blog post (the list endpoints do not include labels)
+   */
+  private async getLabels(contentType: 'pages' | 'blogposts', id: string): Promise<string[]> {
+    const labels = await this.getAllResults<{ name: string }>(`/${contentType}/${id}/labels`, { limit: 250 });
+    return labels.map(label => label.name);
+  }
+
+  /**
+   * Account IDs of the creators and last editors of pages
+   */
+  private getAuthorIds(pages: V2Page[]): string[] {
+    return pages
+      .flatMap(page => [page.authorId, page.version?.authorId])
+      .filter((id): id is string => !!id);
+  }
+
+  /**
+   * Resolve account IDs to display names. Unknown users keep their account ID.
+   */
+  private async getUserNames(accountIds: string[]): Promise<Map<string, string>> {
+    const missing = Array.from(new Set(accountIds)).filter(id => !this.userNames.has(id));
+    // The bulk endpoint accepts up to 100 account IDs per request
+    for (let i = 0; i < missing.length; i += 100) {
+      try {
+        const response = await this.client.post('/users-bulk', { accountIds: missing.slice(i, i + 100) });
+        for (const user of response.data.results || []) {
+          this.userNames.set(user.accountId, user.displayName || user.publicName || user.accountId);
+        }
+      } catch (error: any) {
+        console.log(`⚠️  Could not resolve author names: ${error.response?.status || error.message}`);
+        break;
+      }
+    }
+    return this.userNames;
+  }
+
+  /**
+   * Follow `_links.next` cursors until all results of a list endpoint are fetched
+   */
+  private async getAllResults<T>(url: string, params: Record<string, unknown>): Promise<T[]> {
+    const results: T[] = [];
+    let response = await this.client.get<V2ListResponse<T>>(url, { params });
+
+    while (true) {
+      results.push(...(response.data.results || []));
+
+      const next = response.data._links?.next;
+      if (!next) {
+        break;
+      }
+      // The cursor link is relative to the site root and already contains all query parameters
+      response = await this.client.get<V2ListResponse<T>>(new URL(next, this.siteUrl).toString());
+    }
+
+    return results;
+  }
+
+  /**
+   * Build the ancestor chain of a page from the parent IDs of the fetched pages
+   */
+  private buildAncestors(page: V2Page, pagesById: Map<string, V2Page>): ConfluencePageAncestor[] {
+    const ancestors: ConfluencePageAncestor[] = [];
+    const visited = new Set<string>([page.id]);
+    let parent = page.parentId ? pagesById.get(String(page.parentId)) : undefined;
+
+    while (parent && !visited.has(parent.id)) {
+      ancestors.unshift({ id: parent.id, title: parent.title });
+      visited.add(parent.id);
+      parent = parent.parentId ? pagesById.get(String(parent.parentId)) : undefined;
+    }
+
+    return ancestors;
+  }
+
+  /**
+   * Convert a v2 page into the v1 `ConfluencePage` shape used by the converter
+   */
+  private toConfluencePage(page: V2Page, ancestors: ConfluencePageAncestor[]): ConfluencePage {
+    return {
+      id: String(page.id),
+      title: page.title,
+      body: {
+        storage: {
+          value: page.body?.storage?.value || '',
+        },
+      },
+      _links: {
+        webui: page._links?.webui || '',
+      },
+      ancestors,
+      version: page.version ? {
+        number: page.version.number,
+        when: page.version.createdAt,
+        by: page.version.authorId ? { displayName: this.getUserName(page.version.authorId) } : undefined,
+        message: page.version.message || undefined,
+      } : undefined,
+      type: 'page',
+      history: {
+        createdDate: page.createdAt,
+        createdBy: page.authorId ? { displayName: this.getUserName(page.authorId) } : undefined,
+      },
+    };
+  }
+
+  /**
+   * Display name of a user resolved by `getUserNames`, or the account ID if it is unknown
+   */
+  private getUserName(accountId: string): string {
+    return this.userNames.get(accountId) || accountId;
+  }
+}
@@ -0,0 +1,201 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ConfluenceComment, ConfluencePage } from './types';
+
+export interface ManifestPageEntry {
+  id: string;
+  title: string;
+  version: number;
+  outputPath: string;
+  images: Record<string, string>;
+  exportedAt: string;
+  /**
+   * Hash of the labels and comments of the page, which change without a new page version
+   */
+  metadata?: string;
+  /**
+   * Output paths of the pages the exported file links to, by `LinkResolver.getPageKey`
+   * (null for pages outside the export)
+   */
+  links?: Record<string, string | null>;
+  /**
+   * State of the parts of the page tree the page lists of the file were built from, by
+   * `getPageListSource` (only for pages with `children`, `pagetree` or `listlabels` macros)
+   */
+  pageLists?: Record<string, string>;
+}
+
+interface ManifestData {
+  options: string;
+  pages: Record<string, ManifestPageEntry>;
+}
+
+/**
+ * State of a previous export, stored next to the exported files.
+ * Used to only convert pages whose Confluence version changed since the last run.
+ */
+export class ExportManifest {
+  static readonly FILENAME = '.export-manifest.json';
+
+  private filePath: string;
+  private data: ManifestData;
+
+  private constructor(filePath: string, data: ManifestData) {
+    this.filePath = filePath;
+    this.data = data;
+  }
+
+  /**
+   * Load the manifest of an export directory, or start an empty one if there is none yet
+   */
+  static async load(directory: string): Promise<ExportManifest> {
+    const filePath = path.join(directory, ExportManifest.FILENAME);
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      const data = JSON.parse(content) as ManifestData;
+      return new ExportManifest(filePath, { options: data.options || '', pages: data.pages || {} });
+    } catch {
+      return new ExportManifest(filePath, { options: '', pages: {} });
+    }
+  }
+
+  /**
+   * Calculate the SHA-256 hash of a file
+   */
+  static async hashFile(filePath: string): Promise<string> {
+    const content = await fs.readFile(filePath);
+    return createHash('sha256').update(content).digest('hex');
+  }
+
+  /**
+   * Calculate the hash of the labels and (with `--include-comments`) the comments of a page
+   */
+  static hashMetadata(page: ConfluencePage, comments?: ConfluenceComment[]): string {
+    return createHash('sha256').update(JSON.stringify({ labels: page.labels || [], comments: comments || [] })).digest('hex');
+  }
+
+  /**
+   * Check whether the previous export used the same options.
+   * Pages exported with different options must be converted again.
+   */
+  hasSameOptions(options: Record<string, unknown>): boolean {
+    return this.data.options === JSON.stringify(options);
+  }
+
+  setOptions(options: Record<string, unknown>): void {
+    this.data.options = JSON.stringify(options);
+  }
+
+  getPage(pageId: string): ManifestPageEntry | undefined {
+    return this.data.pages[pageId];
+  }
+
+  getPages(): ManifestPageEntry[] {
+    return Object.values(this.data.pages);
+  }
+
+  /**
+   * Hashes of all images downloaded by any page, keyed by filename (images share one directory)
+   */
+  getImageHashes(): Record<string, string> {
+    return Object.assign({}, ...this.getPages().map(entry => entry.images));
+  }
+
+  setPage(entry: ManifestPageEntry): void {
+    this.data.pages[entry.id] = entry;
+  }
+
+  /**
+   * Remember where the page links of an exported file point to
+   */
+  setLinks(pageId: string, links: Record<string, string | null>): void {
+    const entry = this.getPage(pageId);
+    if (entry) {
+      entry.links = links;
+    }
+  }
+
+  /**
+   * Check whether a linked page of an exported file was renamed, moved, added or removed since it was
+   * exported. Pages exported without link information are always converted again.
+   */
+  hasChangedLinks(pageId: string, outputPaths: Map<string, string>): boolean {
+    const links = this.getPage(pageId)?.links;
+    if (!links) {
+      return true;
+    }
+    return Object.entries(links).some(([pageKey, outputPath]) => (outputPaths.get(pageKey) ?? null) !== outputPath);
+  }
+
+  /**
+   * Check whether the children, titles or labels that the page lists of an exported file show
+   * changed since it was exported
+   */
+  hasChangedPageLists(pageId: string, getSourceState: (source: string) => string): boolean {
+    const pageLists = this.getPage(pageId)?.pageLists || {};
+    return Object.entries(pageLists).some(([source, state]) => getSourceState(source) !== state);
+  }
+
+  removePage(pageId: string): void {
+    delete this.data.pages[pageId];
+  }
+
+  /**
+   * Entries of pages that are no longer part of the given page list (deleted or moved out of the space)
+   */
+  getRemovedPages(pages: ConfluencePage[]): ManifestPageEntry[] {
+    const currentIds = new Set(pages.map(page => page.id));
+    return this.getPages().filter(entry => !currentIds.has(entry.id));
+  }
+
+  /**
+   * Delete an exported file (path relative to the export directory) and any folders left empty by it
+   */
+  async removeFile(relativePath: string): Promise<void> {
+    const rootDir = path.dirname(this.filePath);
+    const filePath = path.join(rootDir, relativePath);
+    await fs.rm(filePath, { force: true });
+
+    // Clean up hierarchy folders that no longer contain any pages
+    let dir = path.dirname(filePath);
+    while (dir !== rootDir && dir.startsWith(rootDir)) {
+      try {
+        await fs.rmdir(dir);
+      } catch {
+        break; // Directory is not empty
+      }
+      dir = path.dirname(dir);
+    }
+  }
+
+  /**
+   * Check whether a page was already exported in its current version, with the same labels and
+   * comments (see `hashMetadata`), to the given path
+   */
+  async isUpToDate(page: ConfluencePage, outputPath: string, metadata: string): Promise<boolean> {
+    const entry = this.getPage(page.id);
+    if (!entry || !page.version || entry.version !== page.version.number || entry.outputPath !== outputPath) {
+      return false;
+    }
+    if (entry.metadata !== metadata) {
+      return false;
+    }
+
+    // The file may have been removed by hand since the last export
+    try {
+      await fs.access(path.join(path.dirname(this.filePath), outputPath));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Write the manifest back to the export directory
+   */
+  async save(): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, JSON.stringify(this.data, null, 2), 'utf-8');
+  }
+}
@@ -0,0 +1,199 @@
+import * as fs from 'fs/promises';
+import { ConfluencePage } from './types';
+
+export type FrontMatterValue = string | number | boolean | string[] | null | undefined;
+
+export interface FrontMatterContext {
+  /**
+   * Space key of the export, used when the page itself does not include its space
+   */
+  spaceKey?: string;
+  /**
+   * Confluence base URL, used to build absolute page URLs
+   */
+  confluenceBaseUrl?: string;
+  /**
+   * Time of the export (defaults to the current time)
+   */
+  exportedAt?: string;
+}
+
+export interface FrontMatterOptions {
+  /**
+   * Comma-separated list of fields, optionally renamed with `key=field` (e.g. `title,date=created,categories=tags`)
+   */
+  fields?: string;
+  /**
+   * Path of a template file with `{{field}}` placeholders
+   */
+  template?: string;
+}
+
+/**
+ * Metadata fields that can be written to the front matter
+ */
+const FIELDS: Record<string, (page: ConfluencePage, context: FrontMatterContext) => FrontMatterValue> = {
+  title: page => page.title,
+  id: page => page.id,
+  type: page => page.type,
+  space: (page, context) => page.space?.key || context.spaceKey,
+  version: page => page.version?.number,
+  author: page => page.history?.createdBy?.displayName,
+  created: page => page.history?.createdDate,
+  last_modified: page => page.version?.when,
+  last_modified_by: page => page.version?.by?.displayName,
+  // Publish date, only set for blog posts
+  date: page => (page.type === 'blogpost' ? page.history?.createdDate : undefined),
+  parent_id: page => page.ancestors?.[page.ancestors.length - 1]?.id,
+  ancestors: page => page.ancestors?.map(ancestor => ancestor.title),
+  tags: page => page.labels,
+  url: (page, context) => getPageUrl(page, context),
+  confluence_url: page => page._links?.webui,
+  exported: (page, context) => context.exportedAt || new Date().toISOString(),
+};
+
+export const DEFAULT_FRONT_MATTER_FIELDS = [
+  'title', 'id', 'type', 'space', 'version', 'author', 'created', 'last_modified', 'last_modified_by',
+  'date', 'parent_id', 'ancestors', 'tags', 'url', 'confluence_url', 'exported',
+];
+
+/**
+ * Builds the YAML front matter of exported pages from Confluence metadata.
+ * Either a list of fields is written (empty values are left out), or a user template is filled in.
+ */
+export class FrontMatter {
+  private fields: { key: string; field: string }[];
+  private template?: string;
+
+  constructor(fields: string[] = DEFAULT_FRONT_MATTER_FIELDS, template?: string) {
+    this.fields = fields.map(entry => {
+      const [key, field = key] = entry.split('=').map(part => part.trim());
+      FrontMatter.checkField(field);
+      return { key, field };
+    });
+    this.template = template;
+
+    if (template) {
+      for (const match of template.matchAll(/\{\{\s*([\w-]+)\s*\}\}/g)) {
+        FrontMatter.checkField(match[1]);
+      }
+    }
+  }
+
+  /**
+   * Create the front matter configuration from command line options
+   */
+  static async load(options: FrontMatterOptions = {}): Promise<FrontMatter> {
+    const fields = options.fields
+      ? options.fields.split(',').map(field => field.trim()).filter(Boolean)
+      : undefined;
+
+    let template: string | undefined;
+    if (options.template) {
+      try {
+        template = await fs.readFile(options.template, 'utf-8');
+      } catch (error) {
+        throw new Error(`Failed to read front matter template ${options.template}: ${error}`);
+      }
+    }
+
+    return new FrontMatter(fields, template);
+  }
+
+  /**
+   * Render the front matter block (including the `---` delimiters) for a page
+   */
+  render(page: ConfluencePage, context: FrontMatterContext = {}): string {
+    if (this.template) {
+      // Placeholders are replaced inline, so lists use the flow style (`["a", "b"]`)
+      const content = this.template
+        .replace(/\{\{\s*([\w-]+)\s*\}\}/g, (match, field) => toYamlValue(FIELDS[field](page, context)))
+        .replace(/^---\s*\n|\n---\s*$/g, '')
+        .trimEnd();
+      return `---\n${content}\n---`;
+    }
+
+    const lines = ['---'];
+    for (const { key, field } of this.fields) {
+      const value = FIELDS[field](page, context);
+      if (value === undefined || value === null || (Array.isArray(value) && value.length === 0)) {
+        continue;
+      }
+      if (Array.isArray(value)) {
+        lines.push(`${toYamlKey(key)}:`);
+        value.forEach(item => lines.push(`  - ${toYamlValue(item)}`));
+      } else {
+        lines.push(`${toYamlKey(key)}: ${toYamlValue(value)}`);
+      }
+    }
+    lines.push('---');
+    return lines.join('\n');
+  }
+
+  private static checkField(field: string): void {
+    if (!Object.prototype.hasOwnProperty.call(FIELDS, field)) {
+      throw new Error(`Unknown front matter field "${field}". Available fields: ${Object.keys(FIELDS).join(', ')}`);
+    }
+  }
+}
+
+/**
+ * Serialize a value as a YAML scalar (strings are always double-quoted) or flow sequence
+ */
+export function toYamlValue(value: FrontMatterValue): string {
+  if (value === undefined || value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => toYamlValue(item)).join(', ')}]`;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  // A JSON string is a valid YAML double-quoted scalar, with quotes, backslashes and control characters escaped
+  return JSON.stringify(value);
+}
+
+/**
+ * Read the title of an exported markdown file from its front matter
+ */
+export function readFrontMatterTitle(markdown: string): string | undefined {
+  const frontMatter = markdown.match(/^---\r?\n([\s\S]*?)\r?\n---/);
+  const title = frontMatter?.[1].match(/^title:[ \t]*(.+?)[ \t]*$/m)?.[1];
+  if (!title) {
+    return undefined;
+  }
+  if (title.startsWith('"')) {
+    try {
+      return JSON.parse(title);
+    } catch {
+      // Not a JSON-compatible escape sequence, fall back to removing the quotes
+    }
+  }
+  return title.replace(/^(["'])(.*)\1$/, '$2');
+}
+
+/**
+ * Quote keys that are not plain YAML identifiers
+ */
+function toYamlKey(key: string): string {
+  return /^[A-Za-z_][\w-]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * Absolute URL of the page in Confluence
+ */
+function getPageUrl(page: ConfluencePage, context: FrontMatterContext): string | undefined {
+  const webui = page._links?.webui;
+  if (!webui) {
+    return undefined;
+  }
+  if (/^https?:\/\//.test(webui) || !context.confluenceBaseUrl) {
+    return webui;
+  }
+  const base = context.confluenceBaseUrl.replace(/\/$/, '');
+  // Cloud web UI links are relative to the /wiki context path
+  return base.endsWith('/wiki') || webui.startsWith('/wiki/') || !base.includes('atlassian.net')
+    ? `${base}${webui}`
+    : `${base}/wiki${webui}`;
+}
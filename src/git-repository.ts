@@ -0,0 +1,87 @@
+import { execFile } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+export interface GitCommitAuthor {
+  name: string;
+  email: string;
+  /**
+   * ISO 8601 timestamp used as author and commit date
+   */
+  date: string;
+}
+
+/**
+ * Minimal wrapper around the `git` command line for writing an export history
+ */
+export class GitRepository {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  /**
+   * Create the repository if the directory is not one yet
+   */
+  async init(): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    try {
+      await fs.access(path.join(this.directory, '.git'));
+    } catch {
+      await this.run(['init', '--quiet']);
+      console.log(`📦 Initialized git repository in ${this.directory}`);
+    }
+  }
+
+  /**
+   * Keep files out of the history without adding a .gitignore to the exported content
+   */
+  async exclude(pattern: string): Promise<void> {
+    const excludeFile = path.join(this.directory, '.git', 'info', 'exclude');
+    let content = '';
+    try {
+      content = await fs.readFile(excludeFile, 'utf-8');
+    } catch {
+      // No exclude file yet
+    }
+    if (!content.split('\n').includes(pattern)) {
+      await fs.mkdir(path.dirname(excludeFile), { recursive: true });
+      await fs.appendFile(excludeFile, `${content && !content.endsWith('\n') ? '\n' : ''}${pattern}\n`, 'utf-8');
+    }
+  }
+
+  /**
+   * Stage files (paths relative to the repository) and commit them with the given author and date.
+   * Versions without content changes still get a commit, so the log matches the page history.
+   */
+  async commit(files: string[], message: string, author: GitCommitAuthor): Promise<void> {
+    if (files.length > 0) {
+      await this.run(['add', '--all', '--', ...files]);
+    }
+    await this.run(['-c', 'commit.gpgsign=false', 'commit', '--quiet', '--allow-empty', '--no-verify', '-m', message], {
+      GIT_AUTHOR_NAME: author.name,
+      GIT_AUTHOR_EMAIL: author.email,
+      GIT_AUTHOR_DATE: author.date,
+      GIT_COMMITTER_NAME: author.name,
+      GIT_COMMITTER_EMAIL: author.email,
+      GIT_COMMITTER_DATE: author.date,
+    });
+  }
+
+  private async run(args: string[], env?: Record<string, string>): Promise<string> {
+    try {
+      const { stdout } = await execFileAsync('git', args, {
+        cwd: this.directory,
+        env: { ...process.env, ...env },
+        maxBuffer: 10 * 1024 * 1024,
+      });
+      return stdout;
+    } catch (error: any) {
+      throw new Error(`git ${args[0] === '-c' ? args[2] : args[0]} failed: ${error.stderr || error.message}`);
+    }
+  }
+}
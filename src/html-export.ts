@@ -0,0 +1,332 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { DomUtils, parseDocument } from 'htmlparser2';
+import { Document, Element, Text } from 'domhandler';
+import { ConfluencePage, ConfluencePageAncestor, ConfluencePageSpace } from './types';
+import { AttachmentSource } from './markdown-converter';
+
+/**
+ * One page file of the export, before the hierarchy is known
+ */
+interface HtmlExportFile {
+  page: ConfluencePage;
+  /**
+   * Page files of the breadcrumbs, from the space home down to the parent
+   */
+  breadcrumbs: string[];
+  content: Element | null;
+}
+
+/**
+ * Page files are named `<Title>_<id>.html`, or `<id>.html` for titles that are not plain ASCII
+ */
+const PAGE_FILE_PATTERN = /^(?:(.*)_)?(\d+)\.html$/;
+
+/**
+ * Attachment files are stored as `attachments/<page id>/<file>`
+ */
+const ATTACHMENT_PATTERN = /^attachments\/(?:thumbnails\/)?(\d+)\/([^?#]+)/;
+
+/**
+ * A Confluence "HTML export" of a space, read from the unzipped export directory.
+ * The page hierarchy is taken from the page tree of index.html (or the breadcrumbs of
+ * each page), and the rendered page content is turned into HTML the converter understands:
+ * attachments become download URLs served from the `attachments/` folder and links between
+ * exported pages become page links that LinkResolver rewrites.
+ */
+export class ConfluenceHtmlExport implements AttachmentSource {
+  private directory: string;
+  private space: ConfluencePageSpace;
+  private pages: ConfluencePage[] = [];
+  private attachments = new Map<string, string>();
+
+  private constructor(directory: string, space: ConfluencePageSpace) {
+    this.directory = directory;
+    this.space = space;
+  }
+
+  /**
+   * Read an export directory (the unzipped archive, or the space folder inside it)
+   */
+  static async open(directory: string, spaceKey?: string): Promise<ConfluenceHtmlExport> {
+    const exportDir = await findExportDirectory(directory);
+    if (!exportDir) {
+      throw new Error(`${directory} is not a Confluence HTML export: index.html is missing`);
+    }
+
+    let index: Document;
+    let fileNames: string[];
+    try {
+      index = parseDocument(await fs.readFile(path.join(exportDir, 'index.html'), 'utf-8'));
+      fileNames = (await fs.readdir(exportDir)).filter(name => PAGE_FILE_PATTERN.test(name)).sort();
+    } catch (error) {
+      throw new Error(`Failed to read Confluence HTML export ${exportDir}: ${error}`);
+    }
+
+    const space = {
+      key: spaceKey || getSpaceKey(index) || path.basename(exportDir),
+      name: getText(DomUtils.getElementById('title-text', index.children)) || undefined,
+    };
+    const htmlExport = new ConfluenceHtmlExport(exportDir, space);
+
+    console.log(`📂 Reading ${fileNames.length} pages of space ${space.key}...`);
+    const files = new Map<string, HtmlExportFile>();
+    for (const fileName of fileNames) {
+      try {
+        files.set(fileName, htmlExport.readPageFile(fileName, await fs.readFile(path.join(exportDir, fileName), 'utf-8')));
+      } catch (error) {
+        throw new Error(`Failed to read page ${fileName} of ${exportDir}: ${error}`);
+      }
+    }
+
+    htmlExport.buildPages(files, getPageTree(index, files));
+    return htmlExport;
+  }
+
+  /**
+   * The exported space
+   */
+  getSpace(): ConfluencePageSpace {
+    return this.space;
+  }
+
+  /**
+   * Get the pages of the export, each parent followed by its children in Confluence order
+   */
+  async getAllPagesFromSpace(): Promise<ConfluencePage[]> {
+    return this.pages;
+  }
+
+  /**
+   * Read an attachment file from the `attachments/` folder of the export
+   */
+  async readAttachment(pageId: string, filename: string): Promise<Buffer> {
+    const file = this.attachments.get(`${pageId}/${filename}`);
+    if (!file) {
+      throw new Error(`Attachment "${filename}" of page ${pageId} is not in the export`);
+    }
+    try {
+      return await fs.readFile(path.join(this.directory, file));
+    } catch (error) {
+      throw new Error(`Failed to read attachment "${filename}" of page ${pageId}: ${error}`);
+    }
+  }
+
+  /**
+   * Extract the title, breadcrumbs, metadata and content of a page file
+   */
+  private readPageFile(fileName: string, html: string): HtmlExportFile {
+    const document = parseDocument(html);
+    const id = fileName.match(PAGE_FILE_PATTERN)![2];
+
+    // The heading (and the document title) is "<space name> : <page title>"
+    const heading = getText(DomUtils.getElementById('title-text', document.children))
+      || getText(DomUtils.findOne(element => element.name === 'title', document.children));
+    const prefix = this.space.name ? `${this.space.name} : ` : '';
+    const title = prefix && heading.startsWith(prefix)
+      ? heading.substring(prefix.length).trim()
+      : heading.replace(/^.*? : /, '').trim();
+
+    // The first breadcrumb is the space overview (index.html)
+    const breadcrumbList = DomUtils.getElementById('breadcrumbs', document.children);
+    const breadcrumbs = breadcrumbList
+      ? DomUtils.getElementsByTagName('a', breadcrumbList)
+        .map(link => link.attribs.href || '')
+        .filter(href => PAGE_FILE_PATTERN.test(href))
+      : [];
+
+    // "Created by <author>, last modified by <editor> on <date>" or "Created by <author> on <date>"
+    const metadata = DomUtils.findOne(element => hasClass(element, 'page-metadata'), document.children);
+    const author = getText(metadata && DomUtils.findOne(element => hasClass(element, 'author'), metadata.children));
+    const createdDate = metadata && !/last (?:modified|updated)/i.test(getText(metadata))
+      ? parseDate(getText(metadata).match(/\bon ([A-Z][a-z]+ \d{1,2}, \d{4})/)?.[1])
+      : undefined;
+
+    return {
+      page: {
+        id,
+        title: title || fileName.replace(/\.html$/, ''),
+        type: 'page',
+        body: { storage: { value: '' } },
+        _links: { webui: `/pages/viewpage.action?pageId=${id}` },
+        space: this.space,
+        history: author || createdDate ? { createdBy: author ? { displayName: author } : undefined, createdDate } : undefined,
+      },
+      breadcrumbs: breadcrumbs.filter(href => href !== fileName),
+      content: DomUtils.getElementById('main-content', document.children),
+    };
+  }
+
+  /**
+   * Set the ancestors and content of every page, in the order of the page tree
+   */
+  private buildPages(files: Map<string, HtmlExportFile>, tree: { fileName: string; parent?: string }[]): void {
+    // Pages missing from the page tree are placed below their last breadcrumb
+    const parents = new Map<string, string | undefined>(tree.map(entry => [entry.fileName, entry.parent]));
+    const order = tree.map(entry => entry.fileName);
+    for (const [fileName, file] of files) {
+      if (!parents.has(fileName)) {
+        parents.set(fileName, file.breadcrumbs.filter(crumb => files.has(crumb)).pop());
+        order.push(fileName);
+      }
+    }
+
+    for (const fileName of order) {
+      const ancestors: ConfluencePageAncestor[] = [];
+      for (let parent = parents.get(fileName); parent && ancestors.length < files.size; parent = parents.get(parent)) {
+        const ancestor = files.get(parent)!.page;
+        ancestors.unshift({ id: ancestor.id, title: ancestor.title });
+      }
+      files.get(fileName)!.page.ancestors = ancestors;
+    }
+
+    this.pages = order.map(fileName => files.get(fileName)!.page);
+    for (const fileName of order) {
+      const file = files.get(fileName)!;
+      file.page.body.storage.value = file.content ? this.convertContent(file.content, files) : '';
+    }
+  }
+
+  /**
+   * Rewrite the rendered page content: attachments become download URLs, links to exported pages
+   * become page links, code blocks get their language and icons from the export are removed
+   */
+  private convertContent(content: Element, files: Map<string, HtmlExportFile>): string {
+    for (const image of DomUtils.getElementsByTagName('img', content)) {
+      const src = image.attribs.src || '';
+      if (hasClass(image, 'emoticon')) {
+        DomUtils.replaceElement(image, new Text(image.attribs['data-emoji-fallback'] || image.attribs.alt || ''));
+      } else if (ATTACHMENT_PATTERN.test(src)) {
+        image.attribs.src = this.registerAttachment(src, image.attribs['data-linked-resource-default-alias']);
+      } else if (src.startsWith('images/')) {
+        // Icons of the export theme
+        DomUtils.removeElement(image);
+      }
+    }
+
+    for (const link of DomUtils.getElementsByTagName('a', content)) {
+      const href = link.attribs.href || '';
+      const [fileName, anchor] = href.split('#');
+      // Links use the file name of the target page, or only its ID if the page was renamed
+      const pageId = fileName.match(PAGE_FILE_PATTERN)?.[2];
+      const target = files.get(fileName)?.page || this.pages.find(page => page.id === pageId);
+      if (ATTACHMENT_PATTERN.test(href)) {
+        link.attribs.href = this.registerAttachment(href, link.attribs['data-linked-resource-default-alias']);
+      } else if (target) {
+        link.attribs.href = `${getPageLinkHref(target.title)}${anchor ? `#${anchor}` : ''}`;
+      } else if (fileName === 'index.html' && this.pages.length > 0) {
+        // The space overview, linked as the space home page
+        link.attribs.href = getPageLinkHref(this.pages[0].title);
+      }
+    }
+
+    // Code blocks are <pre> elements with the language in the syntax highlighter parameters
+    for (const pre of DomUtils.getElementsByTagName('pre', content)) {
+      if (pre.children.some(child => child instanceof Element && child.name === 'code')) {
+        continue;
+      }
+      const language = (pre.attribs['data-syntaxhighlighter-params'] || '').match(/brush:\s*([\w+#-]+)/)?.[1];
+      const code = new Element('code', language ? { class: `language-${language}` } : {});
+      [...pre.children].forEach(child => DomUtils.appendChild(code, child));
+      DomUtils.appendChild(pre, code);
+    }
+
+    return DomUtils.getInnerHTML(content);
+  }
+
+  /**
+   * Remember where an attachment file is and return its download URL
+   */
+  private registerAttachment(url: string, alias?: string): string {
+    const [file, pageId, storedName] = url.match(ATTACHMENT_PATTERN)!;
+    const filename = alias || decodeURIComponent(storedName);
+    this.attachments.set(`${pageId}/${filename}`, decodeURIComponent(file));
+    return `/download/attachments/${pageId}/${encodeURIComponent(filename)}`;
+  }
+}
+
+/**
+ * The export directory is the folder with index.html, which is usually the space folder inside the zip
+ */
+async function findExportDirectory(directory: string): Promise<string | undefined> {
+  const candidates = [directory];
+  try {
+    const entries = await fs.readdir(directory, { withFileTypes: true });
+    candidates.push(...entries.filter(entry => entry.isDirectory()).map(entry => path.join(directory, entry.name)));
+  } catch (error) {
+    throw new Error(`Failed to read Confluence HTML export ${directory}: ${error}`);
+  }
+
+  for (const candidate of candidates) {
+    try {
+      await fs.access(path.join(candidate, 'index.html'));
+      return candidate;
+    } catch {
+      // Not the export directory
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read the space key from the space details table of index.html
+ */
+function getSpaceKey(index: Document): string | undefined {
+  const keyHeader = DomUtils.findOne(element => element.name === 'th' && getText(element) === 'Key', index.children);
+  const keyCell = keyHeader && DomUtils.nextElementSibling(keyHeader);
+  return getText(keyCell) || undefined;
+}
+
+/**
+ * Read the "Available Pages" tree of index.html as page files with their parent, in tree order
+ */
+function getPageTree(index: Document, files: Map<string, HtmlExportFile>): { fileName: string; parent?: string }[] {
+  const heading = DomUtils.findOne(element => /^h\d$/.test(element.name) && getText(element).startsWith('Available Pages'), index.children);
+  let section = heading?.parent;
+  while (section instanceof Element && !hasClass(section, 'pageSection')) {
+    section = section.parent;
+  }
+
+  const tree: { fileName: string; parent?: string }[] = [];
+  const listed = new Set<string>();
+  for (const link of DomUtils.getElementsByTagName('a', section instanceof Element ? section : index.children)) {
+    const fileName = link.attribs.href || '';
+    if (!files.has(fileName) || listed.has(fileName) || !link.parent || (link.parent as Element).name !== 'li') {
+      continue;
+    }
+
+    // The parent page is the link of the list item that contains the list of this page
+    let parent: string | undefined;
+    for (let node = link.parent.parent; node; node = node.parent) {
+      if (node instanceof Element && node.name === 'li') {
+        const parentLink = node.children.find((child): child is Element => child instanceof Element && child.name === 'a');
+        parent = parentLink?.attribs.href;
+        break;
+      }
+    }
+
+    listed.add(fileName);
+    tree.push({ fileName, parent: parent && files.has(parent) ? parent : undefined });
+  }
+  return tree;
+}
+
+/**
+ * Same placeholder as the page links of the storage format, rewritten by LinkResolver
+ */
+function getPageLinkHref(title: string): string {
+  return `/pages/${encodeURIComponent(title).replace(/\(/g, '%28').replace(/\)/g, '%29')}`;
+}
+
+function hasClass(element: Element, className: string): boolean {
+  return (element.attribs.class || '').split(/\s+/).includes(className);
+}
+
+function getText(element: Element | null | undefined): string {
+  return element ? DomUtils.textContent(element).replace(/\s+/g, ' ').trim() : '';
+}
+
+function parseDate(value: string | undefined): string | undefined {
+  const time = value ? Date.parse(`${value} UTC`) : NaN;
+  return isNaN(time) ? undefined : new Date(time).toISOString();
+}
@@ -0,0 +1,145 @@
+import { AxiosError, AxiosInstance } from 'axios';
+import { RetryConfig } from './types';
+
+/**
+ * Status codes that indicate a temporary problem on the server side
+ */
+const RETRYABLE_STATUS_CODES = new Set([408, 429, 500, 502, 503, 504]);
+
+/**
+ * Methods that can be repeated without side effects. Other requests (e.g. Wiki.js GraphQL
+ * mutations and asset uploads) may have been processed before they failed, so they are only
+ * retried when the server rejected them without processing them.
+ */
+const IDEMPOTENT_METHODS = new Set(['get', 'head', 'options', 'put', 'delete']);
+
+/**
+ * Status codes of requests the server did not process
+ */
+const REJECTED_STATUS_CODES = new Set([429, 503]);
+
+/**
+ * Network error codes that are worth retrying (timeouts, dropped connections)
+ */
+const RETRYABLE_ERROR_CODES = new Set(['ECONNABORTED', 'ETIMEDOUT', 'ECONNRESET', 'ECONNREFUSED', 'EPIPE', 'EAI_AGAIN', 'ERR_NETWORK']);
+
+/**
+ * Limits the number of requests started per second.
+ * Requests wait for the next free slot instead of being rejected.
+ */
+export class RateLimiter {
+  private interval: number;
+  private nextSlot = 0;
+
+  constructor(requestsPerSecond: number) {
+    this.interval = 1000 / requestsPerSecond;
+  }
+
+  /**
+   * Wait until the next request may be sent
+   */
+  async acquire(): Promise<void> {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot);
+    this.nextSlot = slot + this.interval;
+    if (slot > now) {
+      await sleep(slot - now);
+    }
+  }
+}
+
+/**
+ * One rate limiter per retry config, so every client created from the same config
+ * (e.g. the Confluence API client and the attachment downloads) shares the cap
+ */
+const rateLimiters = new WeakMap<RetryConfig, RateLimiter>();
+
+/**
+ * Retry failed requests of an HTTP client with exponential backoff and jitter, and limit
+ * the request rate. Timeouts, network errors, 5xx and 429 responses of idempotent requests are
+ * retried, other requests only on 429 and 503. A `Retry-After` header from the server takes
+ * precedence over the calculated delay, up to the configured maximum delay.
+ */
+export function applyRetryPolicy(client: AxiosInstance, retry?: RetryConfig): AxiosInstance {
+  if (!retry) {
+    return client;
+  }
+
+  if (retry.requestsPerSecond > 0) {
+    let limiter = rateLimiters.get(retry);
+    if (!limiter) {
+      limiter = new RateLimiter(retry.requestsPerSecond);
+      rateLimiters.set(retry, limiter);
+    }
+    const sharedLimiter = limiter;
+    client.interceptors.request.use(async (requestConfig) => {
+      await sharedLimiter.acquire();
+      return requestConfig;
+    });
+  }
+
+  client.interceptors.response.use(undefined, async (error: AxiosError) => {
+    const requestConfig: any = error.config;
+    if (!requestConfig || !isRetryable(error)) {
+      throw error;
+    }
+
+    const attempt = (requestConfig._retryCount || 0) + 1;
+    if (attempt > retry.maxRetries) {
+      throw error;
+    }
+    requestConfig._retryCount = attempt;
+
+    const retryAfter = getRetryAfterDelay(error);
+    const delay = retryAfter !== undefined ? Math.min(retryAfter, retry.maxDelayMs) : getBackoffDelay(attempt, retry);
+    const reason = error.response ? `HTTP ${error.response.status}` : error.code || error.message;
+    console.log(`⏳ ${reason} for ${requestConfig.url}, retrying in ${(delay / 1000).toFixed(1)}s (attempt ${attempt}/${retry.maxRetries})`);
+    await sleep(delay);
+
+    return client.request(requestConfig);
+  });
+
+  return client;
+}
+
+function isRetryable(error: AxiosError): boolean {
+  const method = (error.config?.method || 'get').toLowerCase();
+  if (!IDEMPOTENT_METHODS.has(method)) {
+    return !!error.response && REJECTED_STATUS_CODES.has(error.response.status);
+  }
+  if (error.response) {
+    return RETRYABLE_STATUS_CODES.has(error.response.status);
+  }
+  // No response at all: timeout or connection problem
+  return !!error.code && RETRYABLE_ERROR_CODES.has(error.code);
+}
+
+/**
+ * Delay requested by the server, either in seconds or as an HTTP date
+ */
+function getRetryAfterDelay(error: AxiosError): number | undefined {
+  const retryAfter = error.response?.headers?.['retry-after'];
+  if (retryAfter === undefined || retryAfter === null || retryAfter === '') {
+    return undefined;
+  }
+
+  const seconds = Number(retryAfter);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(retryAfter));
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Exponential backoff with jitter, capped at the configured maximum delay
+ */
+function getBackoffDelay(attempt: number, retry: RetryConfig): number {
+  const exponential = Math.min(retry.maxDelayMs, retry.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(exponential / 2 + Math.random() * exponential / 2);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
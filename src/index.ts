@@ -1,12 +1,26 @@
 #!/usr/bin/env node
 
 import { Command } from 'commander';
-import { loadConfig, loadWikiJsConfig } from './config';
-import { ConfluenceClient } from './confluence-client';
+import { loadConfig, loadMacroHandlerPaths, loadWikiJsConfig } from './config';
+import { ConfluenceClient, normalizeBaseUrl } from './confluence-client';
 import { MarkdownConverter } from './markdown-converter';
 import { WikiJsClient } from './wikijs-client';
+import { LinkResolver } from './link-resolver';
+import { ExportManifest } from './export-manifest';
+import { createAuthStrategy } from './auth';
+import { mapWithConcurrency, parseConcurrency } from './concurrency';
+import { GitRepository } from './git-repository';
+import { LabelMapping } from './label-mapping';
+import { FrontMatter, readFrontMatterTitle, toYamlValue } from './front-matter';
+import { RestrictionMapping, describeSubjects, isRestricted, parseRestrictedPageMode } from './restriction-mapping';
+import { ConfluenceXmlExport } from './xml-export';
+import { ConfluenceHtmlExport } from './html-export';
+import { parseCalloutStyle } from './callouts';
+import { PageTree } from './page-tree';
+import { createBlogPostPaths, getPostingDay } from './blog-posts';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { ConfluenceConfig, ConfluencePage, WikiJsConfig, WikiJsPageRule } from './types';
 
 const program = new Command();
 
@@ -14,7 +28,8 @@ program
   .name('confluence-md-exporter')
   .description('Export Confluence pages to Markdown format')
   .version('1.0.0')
-  .option('--ignore-ssl', 'Ignore SSL certificate errors (useful for self-signed certificates)');
+  .option('--ignore-ssl', 'Ignore SSL certificate errors (useful for self-signed certificates)')
+  .option('--macro-handlers <modules>', 'Comma-separated JavaScript modules with handlers for custom macros (default: MACRO_HANDLERS)');
 
 // Helper function to load config with CLI options
 function loadConfigWithOptions(options: any) {
@@ -26,6 +41,627 @@ function loadConfigWithOptions(options: any) {
   return config;
 }
 
+/**
+ * Create a converter with the macro handlers of --macro-handlers or MACRO_HANDLERS
+ */
+function createConverter(): MarkdownConverter {
+  const converter = new MarkdownConverter();
+  converter.loadMacroHandlers(loadMacroHandlerPaths(program.opts().macroHandlers));
+  return converter;
+}
+
+/**
+ * Posting day that links to a blog post contain, so blog posts never take the link target of a page
+ */
+function getLinkPostingDay(page: ConfluencePage): string | undefined {
+  return page.type === 'blogpost' ? getPostingDay(page) : undefined;
+}
+
+/**
+ * Export pages to markdown files in a directory, with the manifest, link and image handling
+ * shared by `export-space`, `export-tree`, `import-xml-export` and `import-html-export`
+ */
+async function exportPages(
+  client: ConfluenceClient | ConfluenceXmlExport | ConfluenceHtmlExport,
+  pages: ConfluencePage[],
+  spaceKey: string,
+  spaceOutputDir: string,
+  options: any,
+  config: Pick<ConfluenceConfig, 'baseUrl' | 'ignoreSSL' | 'retry'>
+): Promise<void> {
+  const converter = createConverter();
+  // Images come from Confluence, or from the files of an XML or HTML export
+  const attachments = client instanceof ConfluenceClient ? client.getAuthStrategy() : client;
+  const calloutStyle = parseCalloutStyle(options.calloutStyle);
+  if (options.includeComments && client instanceof ConfluenceClient) {
+    await client.requireV1Api('fetch comments');
+  }
+
+  // Rename or drop labels before they are written as tags
+  const labelMapping = await LabelMapping.load(options.labelMapping);
+  pages.forEach(page => page.labels = labelMapping.apply(page.labels || []));
+  const frontMatter = await FrontMatter.load({ fields: options.frontMatterFields, template: options.frontMatterTemplate });
+
+  await fs.mkdir(spaceOutputDir, { recursive: true });
+
+  // Create images directory if downloading images
+  const imagesDir = options.downloadImages ? path.join(spaceOutputDir, 'images') : null;
+  if (imagesDir) {
+    await fs.mkdir(imagesDir, { recursive: true });
+    console.log(`📁 Images will be saved to: ${imagesDir}`);
+  }
+
+  // Mirror the Confluence page tree in the output directory if requested
+  const filePaths = options.preserveHierarchy
+    ? converter.createHierarchicalFilePaths(pages)
+    : converter.createFlatFilePaths(pages);
+  if (options.preserveHierarchy) {
+    console.log(`🌳 Preserving page hierarchy in output directory`);
+  }
+
+  // Load the state of the previous export to skip pages that did not change
+  const manifest = await ExportManifest.load(spaceOutputDir);
+  const exportOptions = {
+    downloadImages: !!options.downloadImages,
+    htmlTables: !!options.htmlTables,
+    calloutStyle,
+    preserveHierarchy: !!options.preserveHierarchy,
+    includeComments: !!options.includeComments,
+    labelMapping: labelMapping.rules,
+    frontMatterFields: options.frontMatterFields || null,
+    frontMatterTemplate: options.frontMatterTemplate || null,
+  };
+  const fullExport = options.force || !manifest.hasSameOptions(exportOptions);
+  if (fullExport && manifest.getPages().length > 0) {
+    console.log(`♻️  Re-exporting all pages (${options.force ? '--force' : 'export options changed'})`);
+  }
+  manifest.setOptions(exportOptions);
+  const knownImages = fullExport ? {} : manifest.getImageHashes();
+
+  // Remember where pages were written last time to detect renamed and moved pages
+  const previousPaths = new Map(manifest.getPages().map(entry => [entry.id, entry.outputPath]));
+  const previousImages = Object.keys(manifest.getImageHashes());
+
+  // Register every page first so page links can be resolved once every page is converted
+  const linkResolver = new LinkResolver(config.baseUrl);
+  pages.forEach(page => linkResolver.register(spaceKey, page.title, path.join(spaceOutputDir, filePaths.get(page.id)!), getLinkPostingDay(page)));
+  // children and pagetree macros list the exported pages
+  const pageTree = new PageTree(pages);
+
+  // Links of unchanged pages change too when a linked page is renamed, moved, added or removed
+  const linkTargets = new Map(pages.map(page => [linkResolver.getPageKey(spaceKey, page.title, getLinkPostingDay(page)), filePaths.get(page.id)!.split(path.sep).join('/')]));
+
+  const concurrency = parseConcurrency(options.concurrency);
+  if (concurrency > 1) {
+    console.log(`⚡ Converting ${concurrency} pages in parallel`);
+  }
+
+  // Convert the pages in a bounded worker pool; results keep the page order
+  const pageResults = await mapWithConcurrency(pages, concurrency, async (page, i) => {
+    const relativePath = filePaths.get(page.id)!;
+    const manifestPath = relativePath.split(path.sep).join('/');
+    
+    try {
+      // The HTML export only contains rendered comments, which are not converted
+      const comments = options.includeComments && !(client instanceof ConfluenceHtmlExport) ? await client.getComments(page.id) : undefined;
+      // Labels and comments change without a new page version. Links and page lists of an
+      // unchanged page also change with the pages they show.
+      const metadata = ExportManifest.hashMetadata(page, comments);
+      const unchanged = !fullExport &&
+        await manifest.isUpToDate(page, manifestPath, metadata) &&
+        !manifest.hasChangedLinks(page.id, linkTargets) &&
+        !manifest.hasChangedPageLists(page.id, source => pageTree.getSourceState(source));
+      if (unchanged) {
+        console.log(`Skipping unchanged page ${i + 1}/${pages.length}: ${page.title}`);
+        return { status: 'unchanged' as const };
+      }
+
+      console.log(`Converting page ${i + 1}/${pages.length}: ${page.title}`);
+      const pageListSources = new Set<string>();
+      const filePath = await converter.convertPageToFile(page, spaceOutputDir, config.baseUrl, {
+        preserveHtmlTables: options.htmlTables,
+        calloutStyle,
+        pageTree,
+        pageListSources,
+        relativePath,
+        comments,
+        frontMatter,
+        spaceKey
+      });
+      console.log(`  → Saved to: ${filePath}`);
+      
+      // Download images if requested
+      let images: Record<string, string> = {};
+      if (options.downloadImages && imagesDir) {
+        console.log(`  📥 Downloading images for: ${page.title}`);
+        const markdownContent = await fs.readFile(filePath, 'utf-8');
+        const result = await converter.downloadImages(
+          markdownContent,
+          imagesDir,
+          config.baseUrl,
+          attachments,
+          config, // Pass config for SSL ignore setting
+          {
+            markdownDir: path.dirname(filePath),
+            knownImages,
+            concurrency
+          }
+        );
+        await fs.writeFile(filePath, result.markdown, 'utf-8');
+        images = result.images;
+      }
+      
+      manifest.setPage({
+        id: page.id,
+        title: page.title,
+        version: page.version?.number || 0,
+        outputPath: manifestPath,
+        images,
+        exportedAt: new Date().toISOString(),
+        metadata,
+        pageLists: pageListSources.size > 0
+          ? Object.fromEntries(Array.from(pageListSources).map(source => [source, pageTree.getSourceState(source)]))
+          : undefined,
+      });
+      return { status: 'written' as const, id: page.id, title: page.title, filePath };
+    } catch (error) {
+      console.error(`  → Error converting page "${page.title}": ${error}`);
+      return { status: 'error' as const };
+    }
+  });
+
+  const writtenFiles: { id: string; title: string; filePath: string }[] = [];
+  let unchangedCount = 0;
+  let failedCount = 0;
+  for (const result of pageResults) {
+    if (result.status === 'written') {
+      writtenFiles.push({ id: result.id, title: result.title, filePath: result.filePath });
+    } else if (result.status === 'unchanged') {
+      unchangedCount++;
+    } else {
+      failedCount++;
+    }
+  }
+
+  // Rewrite Confluence page links into relative links between the exported files
+  console.log(`\n🔗 Resolving page links in ${writtenFiles.length} files...`);
+  for (const { id, title, filePath } of writtenFiles) {
+    try {
+      const markdownContent = await fs.readFile(filePath, 'utf-8');
+      const links = linkResolver.getLinkedPageKeys(markdownContent, spaceKey);
+      manifest.setLinks(id, Object.fromEntries(links.map(pageKey => [pageKey, linkTargets.get(pageKey) ?? null])));
+      const updatedMarkdown = linkResolver.rewriteLinksToFiles(markdownContent, spaceKey, filePath, title);
+      if (updatedMarkdown !== markdownContent) {
+        await fs.writeFile(filePath, updatedMarkdown, 'utf-8');
+      }
+    } catch (error) {
+      console.error(`  → Error resolving links in "${filePath}": ${error}`);
+    }
+  }
+  const unresolvedLinks = linkResolver.getUnresolvedLinks();
+  if (unresolvedLinks.length > 0) {
+    console.log(`  ℹ️  ${unresolvedLinks.length} links point to pages outside this export and link to Confluence instead`);
+  }
+
+  // Remove the old files of pages that were renamed or moved in Confluence
+  const currentPaths = new Set(Array.from(filePaths.values()).map(filePath => filePath.split(path.sep).join('/')));
+  let movedCount = 0;
+  for (const page of pages) {
+    const previousPath = previousPaths.get(page.id);
+    const entry = manifest.getPage(page.id);
+    if (previousPath && entry && entry.outputPath !== previousPath && !currentPaths.has(previousPath)) {
+      console.log(`🚚 Page "${page.title}" moved: ${previousPath} → ${entry.outputPath}`);
+      await manifest.removeFile(previousPath);
+      movedCount++;
+    }
+  }
+
+  // Handle pages that no longer exist in Confluence
+  const removedPages = manifest.getRemovedPages(pages);
+  if (removedPages.length > 0) {
+    if (options.prune) {
+      console.log(`\n🗑️  Deleting ${removedPages.length} pages that no longer exist in Confluence...`);
+      for (const entry of removedPages) {
+        if (!currentPaths.has(entry.outputPath)) {
+          await manifest.removeFile(entry.outputPath);
+        }
+        manifest.removePage(entry.id);
+        console.log(`  - ${entry.outputPath} ("${entry.title}")`);
+      }
+    } else {
+      console.log(`\n⚠️  ${removedPages.length} exported pages no longer exist in Confluence (use --prune to delete them):`);
+      removedPages.forEach(entry => console.log(`  - ${entry.outputPath} ("${entry.title}")`));
+    }
+  }
+
+  // Delete images that are no longer referenced by any exported page
+  if (options.prune && imagesDir) {
+    const referencedImages = manifest.getImageHashes();
+    const orphanedImages = previousImages.filter(filename => !(filename in referencedImages));
+    for (const filename of orphanedImages) {
+      await fs.rm(path.join(imagesDir, filename), { force: true });
+    }
+    if (orphanedImages.length > 0) {
+      console.log(`🗑️  Deleted ${orphanedImages.length} orphaned images`);
+    }
+  }
+
+  await manifest.save();
+
+  console.log(`\nExport completed! ${writtenFiles.length} pages exported to ${spaceOutputDir}`);
+  if (unchangedCount > 0) {
+    console.log(`⏭️  ${unchangedCount} unchanged pages skipped (use --force to re-export them)`);
+  }
+  if (movedCount > 0) {
+    console.log(`🚚 ${movedCount} renamed or moved pages relocated`);
+  }
+  if (failedCount > 0) {
+    console.log(`❌ ${failedCount} pages failed to export`);
+  }
+}
+
+/**
+ * Convert pages and create or update them in Wiki.js, with the label, restriction, link and image
+ * handling shared by `export-to-wikijs` and `import-xml-export --wikijs`
+ */
+async function exportPagesToWikiJs(
+  source: ConfluenceClient | ConfluenceXmlExport,
+  pages: ConfluencePage[],
+  spaceKey: string,
+  options: any,
+  config: Pick<ConfluenceConfig, 'baseUrl' | 'ignoreSSL' | 'retry'>,
+  wikiJsConfig: WikiJsConfig
+): Promise<void> {
+  const wikiJsClient = new WikiJsClient(wikiJsConfig);
+  const converter = createConverter();
+  const namespace = (options.namespace || wikiJsConfig.namespace || '').trim();
+  const concurrency = parseConcurrency(options.concurrency);
+  const restrictedPageMode = parseRestrictedPageMode(options.restrictedPages);
+  // Images come from Confluence, or from the files of an XML export archive
+  const attachments = source instanceof ConfluenceXmlExport ? source : source.getAuthStrategy();
+
+  // Use markdown editor directly since we know it works
+  const markdownEditor = { key: 'markdown' };
+  console.log(`📝 Using editor: ${markdownEditor.key}`);
+
+  // Confluence labels become Wiki.js tags
+  const labelMapping = await LabelMapping.load(options.labelMapping);
+  pages.forEach(page => page.labels = labelMapping.apply(page.labels || []));
+
+  // Confluence view restrictions must not turn into world-readable Wiki.js pages
+  if (source instanceof ConfluenceClient) {
+    await source.requireV1Api('fetch page restrictions');
+    if (options.includeComments) {
+      await source.requireV1Api('fetch comments');
+    }
+  }
+  const restrictionMapping = await RestrictionMapping.load(options.restrictionMapping);
+  if (restrictedPageMode === 'rules') {
+    restrictionMapping.assertDenyGroups();
+  }
+  console.log(`🔒 Restricted pages: ${restrictedPageMode}`);
+
+  // Generate Wiki.js page path (preserve hierarchy if requested, blog posts are sorted by date)
+  // Note: Don't include namespace in path since it's set as locale
+  const blogPostPaths = createBlogPostPaths(pages);
+  const getPagePath = (page: typeof pages[number]) => page.type === 'blogpost'
+    ? WikiJsClient.createBlogPostPath(blogPostPaths.get(page.id)!, options.pagePrefix || spaceKey)
+    : options.preserveHierarchy
+      ? WikiJsClient.createHierarchicalPath(page, options.pagePrefix || spaceKey, undefined)
+      : WikiJsClient.sanitizePagePath(page.title, options.pagePrefix || spaceKey, undefined);
+
+  // Register the Wiki.js path of every page so cross-page links can be resolved
+  const linkResolver = new LinkResolver(config.baseUrl);
+  pages.forEach(page => linkResolver.register(spaceKey, page.title, `/${namespace || 'en'}/${getPagePath(page)}`, getLinkPostingDay(page)));
+  // children and pagetree macros list the exported pages
+  const pageTree = new PageTree(pages);
+
+  // Create temporary images directory
+  const tempImagesDir = path.join(process.cwd(), 'temp-images');
+  await fs.mkdir(tempImagesDir, { recursive: true });
+
+  if (concurrency > 1) {
+    console.log(`⚡ Processing ${concurrency} pages in parallel`);
+  }
+
+  // Process the pages in a bounded worker pool; results keep the page order
+  const pageResults = await mapWithConcurrency(pages, concurrency, async (page, i) => {
+    console.log(`\n📄 Processing page ${i + 1}/${pages.length}: ${page.title}`);
+    
+    try {
+      // View restrictions decide whether and how the page is published
+      const pagePath = getPagePath(page);
+      const restrictions = await source.getEffectiveRestrictions(page);
+      const restricted = isRestricted(restrictions.read);
+      let isPublished = true;
+      let restriction: { viewers: string; inheritedFrom?: string; action: string } | undefined;
+      if (restricted) {
+        const viewers = describeSubjects(restrictions.read);
+        const inheritedFrom = restrictions.inheritedFrom?.title;
+        console.log(`  🔒 View restricted to ${viewers}${inheritedFrom ? ` (inherited from "${inheritedFrom}")` : ''}`);
+
+        if (restrictedPageMode === 'skip') {
+          console.log(`  ⏭️  Skipping restricted page`);
+          return {
+            confluencePage: page,
+            restriction: { viewers, inheritedFrom, action: 'skipped' },
+            status: 'restricted'
+          };
+        }
+
+        let action = 'published for everyone';
+        if (restrictedPageMode === 'unpublish') {
+          isPublished = false;
+          action = 'unpublished';
+        } else if (restrictedPageMode === 'rules') {
+          const { groups, unmapped } = restrictionMapping.mapSubjects(restrictions.read);
+          if (unmapped.length > 0) {
+            console.log(`  ⚠️  No Wiki.js group mapped for ${unmapped.join(', ')}`);
+          }
+          // Without any mapped group nobody would get access, so the page stays unpublished
+          isPublished = groups.length > 0;
+          action = isPublished ? `readable by ${groups.join(', ')}` : 'unpublished (no mapped Wiki.js group)';
+        }
+        restriction = { viewers, inheritedFrom, action };
+      }
+      const pageRules = restrictedPageMode === 'rules'
+        ? restrictionMapping.createPageRules(page.id, pagePath, namespace || 'en', restrictions)
+        : undefined;
+
+      // Convert to markdown
+      const comments = options.includeComments ? await source.getComments(page.id) : undefined;
+      // Panels use the callout syntax of Wiki.js and tables of contents link to its heading IDs
+      const conversionOptions = {
+        preserveHtmlTables: options.htmlTables,
+        calloutStyle: 'wikijs' as const,
+        headingAnchors: 'wikijs' as const,
+        tocPlaceholder: options.wikijsToc ? '[[toc]]' : undefined,
+        pageTree,
+      };
+      let markdown = converter.convertToMarkdown(page.body.storage.value, { 
+        ...conversionOptions,
+        pageId: page.id,
+        comments
+      });
+      if (comments && comments.length > 0) {
+        markdown = `${markdown}\n\n${converter.convertComments(comments, conversionOptions)}`;
+      }
+      
+      // Convert relative image URLs to absolute
+      markdown = converter.convertImageUrls(markdown, config.baseUrl);
+      
+      // Point Confluence page links to the Wiki.js pages
+      markdown = linkResolver.rewriteLinks(markdown, spaceKey, wikiPath => wikiPath, page.title);
+      
+      if (!options.dryRun) {
+        let updatedMarkdown = markdown;
+        let uploadedAssets: any[] = [];
+        
+        // Process images for Wiki.js only if requested and not explicitly skipped
+        if (options.uploadImages && !options.skipImages) {
+          console.log(`  🖼️  Processing images for Wiki.js upload...`);
+          // Separate folder per page, parallel pages may download images with the same name
+          const result = await converter.processImagesForWikiJs(
+            markdown,
+            path.join(tempImagesDir, page.id),
+            config.baseUrl,
+            attachments,
+            wikiJsClient,
+            options.uploadPath,
+            config, // Pass config for SSL ignore setting
+            concurrency
+          );
+          updatedMarkdown = result.markdown;
+          uploadedAssets = result.uploadedAssets;
+        } else if (options.skipImages) {
+          console.log(`  ⏭️  Skipping image processing as requested`);
+          // Remove image references from markdown
+          updatedMarkdown = markdown.replace(/!\[([^\]]*)\]\([^)]+\)/g, '<!-- Image removed: $1 -->');
+        } else {
+          console.log(`  📋 Images will be processed with default behavior (use --upload-images to upload to Wiki.js)`);
+        }
+        
+        // Convert to Wiki.js compatible markdown
+        const wikiJsMarkdown = converter.convertToWikiJsMarkdown(updatedMarkdown);
+        
+        // Check if page already exists
+        console.log(`🔍 Checking for existing page at path: "${pagePath}"`);
+        const existingPage = await wikiJsClient.getPageByPath(pagePath, namespace);
+        console.log(`📄 Existing page lookup result: ${existingPage ? `Found page with ID ${existingPage.id}` : 'No existing page found'}`);
+        
+        
+        // Handle existing page based on update flag
+        if (existingPage && options.update === false) {
+          console.log(`  ⏭️  Skipping existing page at /${pagePath} (use --update to overwrite)`);
+          return {
+            confluencePage: page,
+            wikiJsPage: existingPage,
+            uploadedAssets: [],
+            restriction: restriction && { ...restriction, action: 'left unchanged (existing page)' },
+            status: 'skipped'
+          };
+        }
+        
+        const wikiJsPage = {
+          path: pagePath,
+          title: page.title,
+          content: wikiJsMarkdown,
+          contentType: 'markdown',
+          editor: markdownEditor.key,
+          locale: namespace || 'en',
+          isPublished,
+          isPrivate: restricted && restrictedPageMode !== 'publish',
+          tags: Array.from(new Set([spaceKey.toLowerCase(), 'confluence-import', ...(page.labels || [])])),
+          description: `Imported from Confluence page ${page.id}`,
+        };
+        
+        let result;
+        if (existingPage) {
+          console.log(`  ♻️  Updating existing page at /${pagePath}`);
+          result = await wikiJsClient.updatePage(existingPage.id!, wikiJsPage);
+        } else {
+          console.log(`  ✨ Creating new page at /${pagePath}`);
+          result = await wikiJsClient.createPage(wikiJsPage);
+        }
+        
+        console.log(`  ✅ Successfully ${existingPage ? 'updated' : 'created'} Wiki.js page`);
+        console.log(`  📊 Uploaded ${uploadedAssets.length} images`);
+        return {
+          confluencePage: page,
+          wikiJsPage: result,
+          uploadedAssets,
+          restriction,
+          pageRules,
+          status: 'success'
+        };
+      } else {
+        // Dry run - just show what would happen
+        const wikiJsMarkdown = converter.convertToWikiJsMarkdown(markdown);
+        
+        // Check if page exists in dry-run mode
+        const existingPage = await wikiJsClient.getPageByPath(pagePath, namespace);
+        
+        if (existingPage && options.update === false) {
+          console.log(`  ⏭️  Would skip existing page: /${pagePath} (use --update to overwrite)`);
+        } else if (existingPage) {
+          console.log(`  🔄 Would update existing page: /${pagePath}`);
+        } else {
+          console.log(`  ✨ Would create new page: /${pagePath}`);
+        }
+        if (restriction) {
+          console.log(`  🔒 Would be ${restriction.action}`);
+        }
+        
+        console.log(`  📊 Content length: ${wikiJsMarkdown.length} characters`);
+        
+        // Count images that would be processed
+        const imageCount = (markdown.match(/!\[([^\]]*)\]\(([^)]+)\)/g) || []).length;
+        if (options.uploadImages && !options.skipImages) {
+          console.log(`  🖼️  Would upload ${imageCount} images to Wiki.js`);
+        } else if (options.skipImages) {
+          console.log(`  ⏭️  Would skip ${imageCount} images`);
+        } else {
+          console.log(`  🖼️  Found ${imageCount} images (use --upload-images to upload to Wiki.js)`);
+        }
+        if (restriction) {
+          return {
+            confluencePage: page,
+            restriction,
+            status: 'dry-run'
+          };
+        }
+      }
+      
+    } catch (error) {
+      console.error(`  ❌ Error processing page "${page.title}": ${error}`);
+      return {
+        confluencePage: page,
+        error: String(error),
+        status: 'error'
+      };
+    }
+    return undefined;
+  });
+  const results = pageResults.filter(result => result !== undefined);
+
+  // Clean up temp directory
+  try {
+    await fs.rm(tempImagesDir, { recursive: true });
+  } catch (error) {
+    // Ignore cleanup errors
+  }
+
+  // Limit access to restricted pages with page rules of the mapped Wiki.js groups
+  if (restrictedPageMode === 'rules' && !options.dryRun) {
+    try {
+      console.log(`\n🔒 Updating Wiki.js page rules...`);
+      const exported = results.filter(r => r.status === 'success');
+      const rulesByGroup = new Map<string, WikiJsPageRule[]>();
+      exported.forEach(r => r.pageRules?.forEach((rules, group) => {
+        rulesByGroup.set(group, [...(rulesByGroup.get(group) || []), ...rules]);
+      }));
+      await restrictionMapping.applyPageRules(wikiJsClient, exported.map(r => getPagePath(r.confluencePage)), rulesByGroup);
+    } catch (error) {
+      console.error(`  ❌ Failed to update page rules: ${error}`);
+    }
+  }
+
+  // Create navigation structure if requested
+  if (options.createNavigation && !options.dryRun && results.some(r => r.status === 'success')) {
+    try {
+      console.log(`\n🧭 Creating Wiki.js navigation structure...`);
+      const { WikiJsClient } = await import('./wikijs-client');
+      const successfulPages = results
+        .filter(r => r.status === 'success')
+        // Restricted pages are left out, the navigation is visible to everyone
+        .filter(r => !r.restriction || restrictedPageMode === 'publish')
+        .map(r => r.confluencePage)
+        .filter(page => page.type !== 'blogpost');
+      
+      const navigationTree = WikiJsClient.buildNavigationTree(successfulPages, spaceKey);
+      
+      if (navigationTree.length > 0) {
+        const navResult = await wikiJsClient.createNavigation(navigationTree, spaceKey);
+        if (navResult.responseResult.succeeded) {
+          console.log(`  ✅ Navigation structure created successfully`);
+        } else {
+          console.log(`  ⚠️  Navigation creation completed with warnings: ${navResult.responseResult.message}`);
+        }
+      } else {
+        console.log(`  ℹ️  No navigation structure to create (no hierarchical pages found)`);
+      }
+    } catch (error) {
+      console.error(`  ❌ Failed to create navigation: ${error}`);
+    }
+  }
+
+  // Summary
+  console.log(`\n🎉 Export completed!`);
+  const successful = results.filter(r => r.status === 'success').length;
+  const failed = results.filter(r => r.status === 'error').length;
+  const skipped = results.filter(r => r.status === 'skipped').length;
+  const totalImages = results.reduce((sum, r) => sum + (r.uploadedAssets?.length || 0), 0);
+  
+  console.log(`✅ Successfully processed: ${successful} pages`);
+  if (skipped > 0) {
+    console.log(`⏭️  Skipped existing: ${skipped} pages (use --update to overwrite)`);
+  }
+  if (failed > 0) {
+    console.log(`❌ Failed: ${failed} pages`);
+  }
+  if (!options.dryRun) {
+    console.log(`🖼️  Total images uploaded: ${totalImages}`);
+  }
+
+  // Report every page with view restrictions and what was done with it
+  const restrictedResults = results.filter(r => r.restriction);
+  if (restrictedResults.length > 0) {
+    console.log(`\n🔒 Pages with view restrictions: ${restrictedResults.length}`);
+    restrictedResults.forEach(r => {
+      const restriction = r.restriction!;
+      const inherited = restriction.inheritedFrom ? `, inherited from "${restriction.inheritedFrom}"` : '';
+      console.log(`  - "${r.confluencePage.title}" (${restriction.viewers}${inherited}) → ${options.dryRun ? 'would be ' : ''}${restriction.action}`);
+    });
+  }
+  
+  // Report links that could not be resolved to a Wiki.js page, in page order rather than the order
+  // in which the parallel workers finished (links of one page stay in document order)
+  const pageOrder = new Map<string, number>();
+  pages.forEach((page, index) => {
+    if (!pageOrder.has(page.title)) {
+      pageOrder.set(page.title, index);
+    }
+  });
+  const unresolvedLinks = linkResolver.getUnresolvedLinks()
+    .sort((a, b) => (pageOrder.get(a.sourceTitle) ?? pages.length) - (pageOrder.get(b.sourceTitle) ?? pages.length));
+  if (unresolvedLinks.length > 0) {
+    console.log(`\n🔗 Unresolved page links: ${unresolvedLinks.length} (linked to Confluence instead)`);
+    unresolvedLinks.forEach(link => {
+      console.log(`  - "${link.sourceTitle}" → ${link.spaceKey}: "${link.title}"`);
+    });
+  }
+}
+
 program
   .command('export-space')
   .description('Export all pages from a Confluence space')
@@ -33,7 +669,16 @@ program
   .option('-o, --output <directory>', 'Output directory')
   .option('--download-images', 'Download and save images locally')
   .option('--html-tables', 'Preserve tables as HTML instead of converting to markdown')
+  .option('--callout-style <style>', 'Syntax of info, note, warning, tip and other panels: github (alerts), wikijs or mkdocs (admonitions)', 'github')
   .option('--preserve-hierarchy', 'Preserve Confluence page hierarchy in output directory structure')
+  .option('--force', 'Re-export all pages, even if they did not change since the last export')
+  .option('--prune', 'Delete files and images of pages that were deleted in Confluence since the last export')
+  .option('--concurrency <number>', 'Number of pages converted in parallel', '1')
+  .option('--include-blog-posts', 'Also export blog posts (into blog/YYYY/MM/DD/)')
+  .option('--include-comments', 'Append page comments (footer and inline) as a "Comments" section')
+  .option('--label-mapping <file>', 'JSON file that renames ("label": "tag") or ignores ("label": null) Confluence labels')
+  .option('--front-matter-fields <fields>', 'Comma-separated front matter fields, optionally renamed with key=field (e.g. "title,date=created,categories=tags")')
+  .option('--front-matter-template <file>', 'Front matter template file with {{field}} placeholders')
   .action(async (options) => {
     try {
       const config = loadConfigWithOptions(program.opts());
@@ -49,54 +694,322 @@ program
       console.log(`Output directory: ${outputDir}`);
 
       const client = new ConfluenceClient(config);
-      const converter = new MarkdownConverter();
 
       // Get all pages from the space
-      const pages = await client.getAllPagesFromSpace(spaceKey);
+      const concurrency = parseConcurrency(options.concurrency);
+      const pages = await client.getAllPagesFromSpace(spaceKey, concurrency);
+      if (options.includeBlogPosts) {
+        pages.push(...await client.getAllBlogPostsFromSpace(spaceKey, concurrency));
+      }
       console.log(`Found ${pages.length} pages to export`);
 
-      // Create space-specific output directory
-      const spaceOutputDir = path.join(outputDir, spaceKey);
-      await fs.mkdir(spaceOutputDir, { recursive: true });
+      await exportPages(client, pages, spaceKey, path.join(outputDir, spaceKey), options, config);
+    } catch (error) {
+      console.error('Error:', error);
+      process.exit(1);
+    }
+  });
 
-      // Create images directory if downloading images
-      const imagesDir = options.downloadImages ? path.join(spaceOutputDir, 'images') : null;
-      if (imagesDir) {
-        await fs.mkdir(imagesDir, { recursive: true });
-        console.log(`📁 Images will be saved to: ${imagesDir}`);
+program
+  .command('export-tree')
+  .description('Export a page and all of its descendants')
+  .option('-r, --root <pageId>', 'ID of the root page of the subtree')
+  .option('-s, --space <spaceKey>', 'Confluence space key (default: space of the root page)')
+  .option('-o, --output <directory>', 'Output directory')
+  .option('--download-images', 'Download and save images locally')
+  .option('--html-tables', 'Preserve tables as HTML instead of converting to markdown')
+  .option('--callout-style <style>', 'Syntax of info, note, warning, tip and other panels: github (alerts), wikijs or mkdocs (admonitions)', 'github')
+  .option('--preserve-hierarchy', 'Preserve Confluence page hierarchy in output directory structure')
+  .option('--force', 'Re-export all pages, even if they did not change since the last export')
+  .option('--prune', 'Delete files and images of pages that were removed from the subtree since the last export')
+  .option('--include-comments', 'Append page comments (footer and inline) as a "Comments" section')
+  .option('--label-mapping <file>', 'JSON file that renames ("label": "tag") or ignores ("label": null) Confluence labels')
+  .option('--front-matter-fields <fields>', 'Comma-separated front matter fields, optionally renamed with key=field (e.g. "title,date=created,categories=tags")')
+  .option('--front-matter-template <file>', 'Front matter template file with {{field}} placeholders')
+  .option('--concurrency <number>', 'Number of pages fetched and converted in parallel', '1')
+  .action(async (options) => {
+    try {
+      const config = loadConfigWithOptions(program.opts());
+      const outputDir = options.output || config.outputDir;
+
+      if (!options.root) {
+        console.error('Error: Root page ID is required. Use --root option');
+        process.exit(1);
       }
 
-      // Convert each page
-      for (let i = 0; i < pages.length; i++) {
-        const page = pages[i];
-        console.log(`Converting page ${i + 1}/${pages.length}: ${page.title}`);
-        
-        try {
-          const filePath = await converter.convertPageToFile(page, spaceOutputDir, config.baseUrl, {
-            preserveHtmlTables: options.htmlTables
-          });
-          console.log(`  → Saved to: ${filePath}`);
-          
-          // Download images if requested
-          if (options.downloadImages && imagesDir) {
-            console.log(`  📥 Downloading images for: ${page.title}`);
-            const markdownContent = await fs.readFile(filePath, 'utf-8');
-            const authHeader = `Basic ${Buffer.from(`${config.username}:${config.password}`).toString('base64')}`;
-            const updatedMarkdown = await converter.downloadAndUpdateImages(
-              markdownContent,
-              imagesDir,
-              config.baseUrl,
-              authHeader,
-              config // Pass config for SSL ignore setting
-            );
-            await fs.writeFile(filePath, updatedMarkdown, 'utf-8');
-          }
-        } catch (error) {
-          console.error(`  → Error converting page "${page.title}": ${error}`);
+      console.log(`Exporting page tree below page: ${options.root}`);
+      console.log(`Output directory: ${outputDir}`);
+
+      const client = new ConfluenceClient(config);
+
+      // Walk the page tree below the root page
+      const pages = await client.getPageTree(options.root, parseConcurrency(options.concurrency));
+      const spaceKey = options.space || pages[0].space?.key || config.spaceKey;
+      if (!spaceKey) {
+        console.error('Error: Could not determine the space of the root page. Use --space option or set SPACE_KEY in .env file');
+        process.exit(1);
+      }
+      console.log(`Found ${pages.length} pages to export from space ${spaceKey}`);
+
+      // Each subtree gets its own directory, so its manifest does not treat the rest of the space as deleted
+      await exportPages(client, pages, spaceKey, path.join(outputDir, `${spaceKey}-${options.root}`), options, config);
+    } catch (error) {
+      console.error('Error:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('import-xml-export')
+  .description('Convert a Confluence XML space export archive, without access to Confluence')
+  .option('-a, --archive <zipFile>', 'Confluence XML export archive (zip file with entities.xml and attachments)')
+  .option('-s, --space <spaceKey>', 'Space key (required if the archive contains several spaces)')
+  .option('-o, --output <directory>', 'Output directory')
+  .option('--base-url <url>', 'URL of the Confluence server the export comes from, used to resolve absolute page links')
+  .option('--download-images', 'Save attachment images from the archive locally')
+  .option('--html-tables', 'Preserve tables as HTML instead of converting to markdown')
+  .option('--callout-style <style>', 'Syntax of info, note, warning, tip and other panels: github (alerts), wikijs or mkdocs (admonitions)', 'github')
+  .option('--preserve-hierarchy', 'Preserve Confluence page hierarchy in output directory structure (or Wiki.js paths)')
+  .option('--force', 'Re-export all pages, even if they did not change since the last export')
+  .option('--prune', 'Delete files and images of pages that are no longer in the archive since the last export')
+  .option('--include-blog-posts', 'Also export blog posts')
+  .option('--include-comments', 'Append page comments (footer and inline) as a "Comments" section')
+  .option('--label-mapping <file>', 'JSON file that renames ("label": "tag") or ignores ("label": null) Confluence labels')
+  .option('--front-matter-fields <fields>', 'Comma-separated front matter fields, optionally renamed with key=field (e.g. "title,date=created,categories=tags")')
+  .option('--front-matter-template <file>', 'Front matter template file with {{field}} placeholders')
+  .option('--wikijs', 'Create the pages in Wiki.js instead of writing markdown files')
+  .option('--upload-path <path>', 'Wiki.js upload path for images', '/uploads')
+  .option('--page-prefix <prefix>', 'Prefix for Wiki.js page paths')
+  .option('--namespace <namespace>', 'Wiki.js namespace/locale (e.g., "de" for German, "fr" for French)')
+  .option('--upload-images', 'Upload images from the archive to Wiki.js')
+  .option('--skip-images', 'Skip image processing entirely (faster but no images)')
+  .option('--update', 'Update existing Wiki.js pages (default: true). Use --no-update to skip existing pages')
+  .option('--dry-run', 'Preview what would be uploaded to Wiki.js without actually doing it')
+  .option('--restricted-pages <mode>', 'Pages with view restrictions: skip, unpublish, rules (Wiki.js page rules) or publish', 'skip')
+  .option('--restriction-mapping <file>', 'JSON file that maps Confluence groups and users to Wiki.js groups (for --restricted-pages rules)')
+  .option('--wikijs-toc', 'Write the Wiki.js [[toc]] placeholder for toc macros instead of a list of heading links')
+  .option('--create-navigation', 'Create Wiki.js navigation from page hierarchy')
+  .option('--concurrency <number>', 'Number of pages converted in parallel', '1')
+  .action(async (options) => {
+    try {
+      if (!options.archive) {
+        console.error('Error: Archive is required. Use --archive option');
+        process.exit(1);
+      }
+      if (options.wikijs && parseRestrictedPageMode(options.restrictedPages) === 'rules' && !options.restrictionMapping) {
+        console.error('Error: --restricted-pages rules requires a --restriction-mapping file');
+        process.exit(1);
+      }
+
+      // Only the settings for links and output are needed, there is no Confluence connection
+      const config = {
+        baseUrl: normalizeBaseUrl(options.baseUrl || process.env.CONFLUENCE_BASE_URL || ''),
+        ignoreSSL: program.opts().ignoreSsl,
+      };
+      const outputDir = options.output || process.env.OUTPUT_DIR || './exports';
+
+      console.log(`Importing Confluence XML export: ${options.archive}`);
+      const archive = await ConfluenceXmlExport.open(options.archive);
+      try {
+        const spaces = archive.getSpaces();
+        const spaceKey = options.space || (spaces.length === 1 ? spaces[0].key : process.env.SPACE_KEY);
+        if (!spaceKey || !spaces.some(space => space.key === spaceKey)) {
+          console.error(`Error: ${spaceKey ? `Space ${spaceKey} is not in the archive` : 'The archive contains several spaces'}. Use --space with one of: ${spaces.map(space => space.key).join(', ')}`);
+          process.exit(1);
+        }
+
+        const pages = await archive.getAllPagesFromSpace(spaceKey);
+        if (options.includeBlogPosts) {
+          pages.push(...await archive.getAllBlogPostsFromSpace(spaceKey));
         }
+        console.log(`Found ${pages.length} pages to export from space ${spaceKey}`);
+
+        if (options.wikijs) {
+          await exportPagesToWikiJs(archive, pages, spaceKey, options, config, loadWikiJsConfig());
+        } else {
+          console.log(`Output directory: ${outputDir}`);
+          await exportPages(archive, pages, spaceKey, path.join(outputDir, spaceKey), options, config);
+        }
+      } finally {
+        archive.close();
+      }
+    } catch (error) {
+      console.error('Error:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('import-html-export')
+  .description('Convert an unzipped Confluence HTML space export, without access to Confluence')
+  .option('-i, --input <directory>', 'Directory of the HTML export (with index.html and the attachments folder)')
+  .option('-s, --space <spaceKey>', 'Space key (default: read from index.html)')
+  .option('-o, --output <directory>', 'Output directory')
+  .option('--base-url <url>', 'URL of the Confluence server the export comes from, used to resolve absolute page links')
+  .option('--skip-images', 'Do not copy images from the attachments folder')
+  .option('--html-tables', 'Preserve tables as HTML instead of converting to markdown')
+  .option('--callout-style <style>', 'Syntax of info, note, warning, tip and other panels: github (alerts), wikijs or mkdocs (admonitions)', 'github')
+  .option('--preserve-hierarchy', 'Preserve Confluence page hierarchy in output directory structure')
+  .option('--force', 'Re-export all pages, even if they did not change since the last export')
+  .option('--prune', 'Delete files and images of pages that are no longer in the export since the last export')
+  .option('--front-matter-fields <fields>', 'Comma-separated front matter fields, optionally renamed with key=field (e.g. "title,date=created,categories=tags")')
+  .option('--front-matter-template <file>', 'Front matter template file with {{field}} placeholders')
+  .option('--concurrency <number>', 'Number of pages converted in parallel', '1')
+  .action(async (options) => {
+    try {
+      if (!options.input) {
+        console.error('Error: Export directory is required. Use --input option');
+        process.exit(1);
       }
 
-      console.log(`\nExport completed! ${pages.length} pages exported to ${spaceOutputDir}`);
+      // Only the settings for links and output are needed, there is no Confluence connection
+      const config = {
+        baseUrl: normalizeBaseUrl(options.baseUrl || process.env.CONFLUENCE_BASE_URL || ''),
+        ignoreSSL: program.opts().ignoreSsl,
+      };
+      const outputDir = options.output || process.env.OUTPUT_DIR || './exports';
+
+      console.log(`Importing Confluence HTML export: ${options.input}`);
+      const htmlExport = await ConfluenceHtmlExport.open(options.input, options.space);
+      const spaceKey = htmlExport.getSpace().key;
+      const pages = await htmlExport.getAllPagesFromSpace();
+      console.log(`Found ${pages.length} pages to export from space ${spaceKey}`);
+      console.log(`Output directory: ${outputDir}`);
+
+      // The attachments are part of the export, so images are always copied unless skipped
+      await exportPages(htmlExport, pages, spaceKey, path.join(outputDir, spaceKey), { ...options, downloadImages: !options.skipImages }, config);
+    } catch (error) {
+      console.error('Error:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('export-history')
+  .description('Export the version history of all pages in a space as a git repository')
+  .option('-s, --space <spaceKey>', 'Confluence space key')
+  .option('-o, --output <directory>', 'Output directory')
+  .option('--html-tables', 'Preserve tables as HTML instead of converting to markdown')
+  .option('--callout-style <style>', 'Syntax of info, note, warning, tip and other panels: github (alerts), wikijs or mkdocs (admonitions)', 'github')
+  .option('--preserve-hierarchy', 'Preserve Confluence page hierarchy in output directory structure')
+  .option('--front-matter-fields <fields>', 'Comma-separated front matter fields, optionally renamed with key=field (e.g. "title,date=created,categories=tags")')
+  .option('--front-matter-template <file>', 'Front matter template file with {{field}} placeholders')
+  .option('--concurrency <number>', 'Number of pages whose version lists are fetched in parallel', '1')
+  .action(async (options) => {
+    try {
+      const config = loadConfigWithOptions(program.opts());
+      const spaceKey = options.space || config.spaceKey;
+      const outputDir = options.output || config.outputDir;
+
+      if (!spaceKey) {
+        console.error('Error: Space key is required. Use --space option or set SPACE_KEY in .env file');
+        process.exit(1);
+      }
+
+      const repoDir = path.join(outputDir, `${spaceKey}-history`);
+      console.log(`Exporting version history of space: ${spaceKey}`);
+      console.log(`Git repository: ${repoDir}`);
+
+      const client = new ConfluenceClient(config);
+      const converter = createConverter();
+      const frontMatter = await FrontMatter.load({ fields: options.frontMatterFields, template: options.frontMatterTemplate });
+
+      const concurrency = parseConcurrency(options.concurrency);
+      const pages = await client.getAllPagesFromSpace(spaceKey, concurrency);
+      console.log(`Found ${pages.length} pages`);
+
+      // Every version of a page is written to the page's current path, so `git log --follow` shows its whole history
+      const filePaths = options.preserveHierarchy
+        ? converter.createHierarchicalFilePaths(pages)
+        : converter.createFlatFilePaths(pages);
+      const linkResolver = new LinkResolver(config.baseUrl);
+      pages.forEach(page => linkResolver.register(spaceKey, page.title, path.join(repoDir, filePaths.get(page.id)!), getLinkPostingDay(page)));
+      // children and pagetree macros list the pages as they are now
+      const pageTree = new PageTree(pages);
+
+      const repository = new GitRepository(repoDir);
+      await repository.init();
+      // The manifest remembers the last committed version of every page, so later runs only add new versions
+      await repository.exclude(ExportManifest.FILENAME);
+      const manifest = await ExportManifest.load(repoDir);
+
+      // Collect the versions that are not in the repository yet
+      console.log(`📜 Fetching version lists...`);
+      const versionLists = await mapWithConcurrency(pages, concurrency, async page => {
+        const exported = manifest.getPage(page.id);
+        if (exported && page.version && exported.version >= page.version.number) {
+          return [];
+        }
+        const versions = await client.getPageVersions(page.id);
+        return versions
+          .filter(version => !exported || version.number > exported.version)
+          .map(version => ({ page, version }));
+      });
+
+      // Commit all versions of all pages in chronological order
+      const history = versionLists.flat().sort((a, b) =>
+        new Date(a.version.when || 0).getTime() - new Date(b.version.when || 0).getTime()
+      );
+      console.log(`Found ${history.length} new versions to commit`);
+
+      for (let i = 0; i < history.length; i++) {
+        const { page, version } = history[i];
+        const relativePath = filePaths.get(page.id)!;
+        const manifestPath = relativePath.split(path.sep).join('/');
+        const date = version.when || new Date().toISOString();
+        console.log(`Committing ${i + 1}/${history.length}: ${page.title} (version ${version.number}, ${date})`);
+
+        // Old versions come without labels and position in the tree, so they keep those of the current page
+        const historicalPage = {
+          ...await client.getPageAtVersion(page.id, version.number),
+          ancestors: page.ancestors,
+          labels: page.labels,
+          space: page.space,
+        };
+        const filePath = await converter.convertPageToFile(historicalPage, repoDir, config.baseUrl, {
+          preserveHtmlTables: options.htmlTables,
+          calloutStyle: parseCalloutStyle(options.calloutStyle),
+          relativePath,
+          timestamp: date,
+          frontMatter,
+          spaceKey,
+          pageTree
+        });
+        const markdown = await fs.readFile(filePath, 'utf-8');
+        await fs.writeFile(filePath, linkResolver.rewriteLinksToFiles(markdown, spaceKey, filePath, page.title), 'utf-8');
+
+        // Pages that moved since the last run leave their old file behind
+        const files = [manifestPath];
+        const previousPath = manifest.getPage(page.id)?.outputPath;
+        if (previousPath && previousPath !== manifestPath) {
+          await manifest.removeFile(previousPath);
+          files.push(previousPath);
+        }
+
+        const title = historicalPage.title || page.title;
+        const summary = version.number === 1 ? `Create "${title}"` : `Update "${title}" (version ${version.number})`;
+        const message = [summary, version.message, `Confluence page ${page.id}, version ${version.number}`]
+          .filter(Boolean)
+          .join('\n\n');
+        await repository.commit(files, message, {
+          name: version.by?.displayName || version.by?.username || 'Unknown user',
+          email: version.by?.email || 'noreply@confluence.invalid',
+          date,
+        });
+
+        manifest.setPage({
+          id: page.id,
+          title: page.title,
+          version: version.number,
+          outputPath: manifestPath,
+          images: {},
+          exportedAt: new Date().toISOString(),
+        });
+        // Save after every commit so an interrupted export can be resumed
+        await manifest.save();
+      }
+
+      console.log(`\nHistory export completed! ${history.length} versions committed to ${repoDir}`);
     } catch (error) {
       console.error('Error:', error);
       process.exit(1);
@@ -110,6 +1023,11 @@ program
   .option('-o, --output <directory>', 'Output directory')
   .option('--download-images', 'Download and save images locally')
   .option('--html-tables', 'Preserve tables as HTML instead of converting to markdown')
+  .option('--callout-style <style>', 'Syntax of info, note, warning, tip and other panels: github (alerts), wikijs or mkdocs (admonitions)', 'github')
+  .option('--include-comments', 'Append page comments (footer and inline) as a "Comments" section')
+  .option('--label-mapping <file>', 'JSON file that renames ("label": "tag") or ignores ("label": null) Confluence labels')
+  .option('--front-matter-fields <fields>', 'Comma-separated front matter fields, optionally renamed with key=field (e.g. "title,date=created,categories=tags")')
+  .option('--front-matter-template <file>', 'Front matter template file with {{field}} placeholders')
   .action(async (options, command) => {
     try {
       console.log('=== DEBUG INFO ===');
@@ -140,15 +1058,23 @@ program
       console.log(`Output directory: ${outputDir}`);
 
       const client = new ConfluenceClient(config);
-      const converter = new MarkdownConverter();
+      const converter = createConverter();
 
       // Get the specific page
       const page = await client.getPage(pageId);
       console.log(`Found page: ${page.title}`);
 
+      const labelMapping = await LabelMapping.load(options.labelMapping);
+      page.labels = labelMapping.apply(page.labels || []);
+      const frontMatter = await FrontMatter.load({ fields: options.frontMatterFields, template: options.frontMatterTemplate });
+
       // Convert the page
+      const comments = options.includeComments ? await client.getComments(page.id) : undefined;
       const filePath = await converter.convertPageToFile(page, outputDir, config.baseUrl, {
-        preserveHtmlTables: options.htmlTables
+        preserveHtmlTables: options.htmlTables,
+        calloutStyle: parseCalloutStyle(options.calloutStyle),
+        comments,
+        frontMatter
       });
       console.log(`Saved to: ${filePath}`);
       
@@ -159,13 +1085,13 @@ program
         await fs.mkdir(imagesDir, { recursive: true });
         
         const markdownContent = await fs.readFile(filePath, 'utf-8');
-        const authHeader = `Basic ${Buffer.from(`${config.username}:${config.password}`).toString('base64')}`;
         const updatedMarkdown = await converter.downloadAndUpdateImages(
           markdownContent,
           imagesDir,
           config.baseUrl,
-          authHeader,
-          config // Pass config for SSL ignore setting
+          client.getAuthStrategy(),
+          config, // Pass config for SSL ignore setting
+          path.dirname(filePath)
         );
         await fs.writeFile(filePath, updatedMarkdown, 'utf-8');
       }
@@ -235,6 +1161,7 @@ program
   .option('-o, --output <mdFile>', 'Output Markdown file path (optional)')
   .option('-t, --title <title>', 'Page title for metadata (optional)')
   .option('--html-tables', 'Preserve tables as HTML instead of converting to markdown')
+  .option('--callout-style <style>', 'Syntax of info, note, warning, tip and other panels: github (alerts), wikijs or mkdocs (admonitions)', 'github')
   .option('--debug', 'Enable debug mode with verbose output')
   .action(async (options) => {
     try {
@@ -268,9 +1195,10 @@ program
         console.log(htmlContent.substring(0, 300) + '...');
       }
       
-      const converter = new MarkdownConverter();
+      const converter = createConverter();
       const markdown = converter.convertToMarkdown(htmlContent, { 
-        preserveHtmlTables: options.htmlTables 
+        preserveHtmlTables: options.htmlTables,
+        calloutStyle: parseCalloutStyle(options.calloutStyle)
       });
 
       if (options.debug) {
@@ -292,8 +1220,8 @@ program
       if (options.title) {
         const metadata = [
           '---',
-          `title: "${options.title}"`,
-          `converted_from: "${path.basename(htmlFile)}"`,
+          `title: ${toYamlValue(options.title)}`,
+          `converted_from: ${toYamlValue(path.basename(htmlFile))}`,
           `created: "${new Date().toISOString()}"`,
           '---',
         ].join('\n');
@@ -351,7 +1279,7 @@ program
       // Read HTML content
       const htmlContent = await fs.readFile(htmlFile, 'utf-8');
       
-      const converter = new MarkdownConverter();
+      const converter = createConverter();
       const markdown = converter.testConversion(htmlContent, {
         headingStyle: options.headingStyle as 'atx' | 'setext',
         bulletListMarker: options.bulletMarker as '-' | '*' | '+',
@@ -364,8 +1292,8 @@ program
       if (options.title) {
         const metadata = [
           '---',
-          `title: "${options.title}"`,
-          `converted_from: "${path.basename(htmlFile)}"`,
+          `title: ${toYamlValue(options.title)}`,
+          `converted_from: ${toYamlValue(path.basename(htmlFile))}`,
           `conversion_options:`,
           `  heading_style: "${options.headingStyle}"`,
           `  bullet_marker: "${options.bulletMarker}"`,
@@ -439,16 +1367,17 @@ program
       // Read markdown content
       const markdownContent = await fs.readFile(mdFile, 'utf-8');
       
-      const converter = new MarkdownConverter();
-      const authHeader = `Basic ${Buffer.from(`${config.username}:${config.password}`).toString('base64')}`;
+      const converter = createConverter();
+      const auth = createAuthStrategy(config);
       
       // Download images and update markdown
       const updatedMarkdown = await converter.downloadAndUpdateImages(
         markdownContent,
         imagesDir,
         config.baseUrl,
-        authHeader,
-        config // Pass config for SSL ignore setting
+        auth,
+        config, // Pass config for SSL ignore setting
+        path.dirname(mdFile)
       );
 
       if (options.update) {
@@ -476,16 +1405,38 @@ program
   .option('--namespace <namespace>', 'Wiki.js namespace/locale (e.g., "de" for German, "fr" for French)')
   .option('--html-tables', 'Preserve tables as HTML instead of converting to markdown')
   .option('--preserve-hierarchy', 'Preserve Confluence page hierarchy in Wiki.js paths')
+  .option('-r, --root <pageId>', 'Only export this page and its descendants')
+  .option('--include-blog-posts', 'Also export blog posts (to <prefix>/blog/YYYY/MM/DD/<slug>, not with --root)')
+  .option('--include-comments', 'Append page comments (footer and inline) as a "Comments" section')
+  .option('--label-mapping <file>', 'JSON file that renames ("label": "tag") or ignores ("label": null) Confluence labels')
+  .option('--restricted-pages <mode>', 'Pages with view restrictions: skip, unpublish, rules (Wiki.js page rules) or publish', 'skip')
+  .option('--restriction-mapping <file>', 'JSON file that maps Confluence groups and users to Wiki.js groups (for --restricted-pages rules)')
+  .option('--wikijs-toc', 'Write the Wiki.js [[toc]] placeholder for toc macros instead of a list of heading links')
   .option('--create-navigation', 'Create Wiki.js navigation from page hierarchy')
   .option('--upload-images', 'Download images from Confluence and upload to Wiki.js')
   .option('--skip-images', 'Skip image processing entirely (faster but no images)')
   .option('--update', 'Update existing pages (default: true). Use --no-update to skip existing pages')
   .option('--dry-run', 'Preview what would be uploaded without actually doing it')
+  .option('--concurrency <number>', 'Number of pages processed in parallel', '1')
   .action(async (options) => {
     try {
       const config = loadConfigWithOptions(program.opts());
       const wikiJsConfig = loadWikiJsConfig();
-      const spaceKey = options.space || config.spaceKey;
+      const confluenceClient = new ConfluenceClient(config);
+      const concurrency = parseConcurrency(options.concurrency);
+      if (parseRestrictedPageMode(options.restrictedPages) === 'rules' && !options.restrictionMapping) {
+        console.error('Error: --restricted-pages rules requires a --restriction-mapping file');
+        process.exit(1);
+      }
+      // Blog posts are not part of the page tree
+      if (options.root && options.includeBlogPosts) {
+        console.error('Error: --include-blog-posts cannot be combined with --root, blog posts do not belong to a page tree');
+        process.exit(1);
+      }
+
+      // With --root only the subtree is exported, by default to the space of the root page
+      const treePages = options.root ? await confluenceClient.getPageTree(options.root, concurrency) : null;
+      const spaceKey = options.space || treePages?.[0].space?.key || config.spaceKey;
 
       // Override namespace from CLI option if provided
       const namespace = (options.namespace || wikiJsConfig.namespace).trim();
@@ -498,7 +1449,11 @@ program
         process.exit(1);
       }
 
-      console.log(`🚀 Exporting Confluence space "${spaceKey}" to Wiki.js`);
+      if (options.root) {
+        console.log(`🚀 Exporting page tree below page ${options.root} of Confluence space "${spaceKey}" to Wiki.js`);
+      } else {
+        console.log(`🚀 Exporting Confluence space "${spaceKey}" to Wiki.js`);
+      }
       console.log(`📡 Confluence: ${config.baseUrl}`);
       console.log(`📚 Wiki.js: ${wikiJsConfig.baseUrl}`);
       console.log(`📁 Upload path: ${options.uploadPath}`);
@@ -514,223 +1469,14 @@ program
         console.log(`📋 Image mode: Default (use --upload-images to upload to Wiki.js)`);
       }
 
-      const confluenceClient = new ConfluenceClient(config);
-      const wikiJsClient = new (await import('./wikijs-client')).WikiJsClient(wikiJsConfig);
-      const converter = new MarkdownConverter();
-
-      // Use markdown editor directly since we know it works
-      const markdownEditor = { key: 'markdown' };
-      console.log(`📝 Using editor: ${markdownEditor.key}`);
-
-      // Get all pages from the space
-      const pages = await confluenceClient.getAllPagesFromSpace(spaceKey);
-      console.log(`Found ${pages.length} pages to export`);
-
-      // Create temporary images directory
-      const tempImagesDir = path.join(process.cwd(), 'temp-images');
-      await fs.mkdir(tempImagesDir, { recursive: true });
-
-      const results = [];
-
-      for (let i = 0; i < pages.length; i++) {
-        const page = pages[i];
-        console.log(`\n📄 Processing page ${i + 1}/${pages.length}: ${page.title}`);
-        
-        try {
-          // Convert to markdown
-          let markdown = converter.convertToMarkdown(page.body.storage.value, { 
-            pageId: page.id,
-            preserveHtmlTables: options.htmlTables 
-          });
-          
-          // Convert relative image URLs to absolute
-          markdown = converter.convertImageUrls(markdown, config.baseUrl);
-          
-          if (!options.dryRun) {
-            let updatedMarkdown = markdown;
-            let uploadedAssets: any[] = [];
-            
-            // Process images for Wiki.js only if requested and not explicitly skipped
-            if (options.uploadImages && !options.skipImages) {
-              console.log(`  🖼️  Processing images for Wiki.js upload...`);
-              const authHeader = `Basic ${Buffer.from(`${config.username}:${config.password}`).toString('base64')}`;
-              const result = await converter.processImagesForWikiJs(
-                markdown,
-                tempImagesDir,
-                config.baseUrl,
-                authHeader,
-                wikiJsClient,
-                options.uploadPath,
-                config // Pass config for SSL ignore setting
-              );
-              updatedMarkdown = result.markdown;
-              uploadedAssets = result.uploadedAssets;
-            } else if (options.skipImages) {
-              console.log(`  ⏭️  Skipping image processing as requested`);
-              // Remove image references from markdown
-              updatedMarkdown = markdown.replace(/!\[([^\]]*)\]\([^)]+\)/g, '<!-- Image removed: $1 -->');
-            } else {
-              console.log(`  📋 Images will be processed with default behavior (use --upload-images to upload to Wiki.js)`);
-            }
-            
-            // Convert to Wiki.js compatible markdown
-            const wikiJsMarkdown = converter.convertToWikiJsMarkdown(updatedMarkdown);
-            
-            // Generate Wiki.js page path (preserve hierarchy if requested)
-            // Note: Don't include namespace in path since it's set as locale
-            const pagePath = options.preserveHierarchy 
-              ? (await import('./wikijs-client')).WikiJsClient.createHierarchicalPath(page, options.pagePrefix || spaceKey, undefined)
-              : (await import('./wikijs-client')).WikiJsClient.sanitizePagePath(
-                  page.title, 
-                  options.pagePrefix || spaceKey,
-                  undefined
-                );
-            
-            // Check if page already exists
-            console.log(`🔍 Checking for existing page at path: "${pagePath}"`);
-            const existingPage = await wikiJsClient.getPageByPath(pagePath, namespace);
-            console.log(`📄 Existing page lookup result: ${existingPage ? `Found page with ID ${existingPage.id}` : 'No existing page found'}`);
-            
-            
-            // Handle existing page based on update flag
-            if (existingPage && options.update === false) {
-              console.log(`  ⏭️  Skipping existing page at /${pagePath} (use --update to overwrite)`);
-              results.push({
-                confluencePage: page,
-                wikiJsPage: existingPage,
-                uploadedAssets: [],
-                status: 'skipped'
-              });
-              continue;
-            }
-            
-            const wikiJsPage = {
-              path: pagePath,
-              title: page.title,
-              content: wikiJsMarkdown,
-              contentType: 'markdown',
-              editor: markdownEditor.key,
-              locale: namespace || 'en',
-              isPublished: true,
-              tags: [spaceKey.toLowerCase(), 'confluence-import'],
-              description: `Imported from Confluence page ${page.id}`,
-            };
-            
-            let result;
-            if (existingPage) {
-              console.log(`  ♻️  Updating existing page at /${pagePath}`);
-              result = await wikiJsClient.updatePage(existingPage.id!, wikiJsPage);
-            } else {
-              console.log(`  ✨ Creating new page at /${pagePath}`);
-              result = await wikiJsClient.createPage(wikiJsPage);
-            }
-            
-            results.push({
-              confluencePage: page,
-              wikiJsPage: result,
-              uploadedAssets,
-              status: 'success'
-            });
-            
-            console.log(`  ✅ Successfully ${existingPage ? 'updated' : 'created'} Wiki.js page`);
-            console.log(`  📊 Uploaded ${uploadedAssets.length} images`);
-          } else {
-            // Dry run - just show what would happen
-            const wikiJsMarkdown = converter.convertToWikiJsMarkdown(markdown);
-            // Note: Don't include namespace in path since it's set as locale
-            const pagePath = options.preserveHierarchy 
-              ? (await import('./wikijs-client')).WikiJsClient.createHierarchicalPath(page, options.pagePrefix || spaceKey, undefined)
-              : (await import('./wikijs-client')).WikiJsClient.sanitizePagePath(
-                  page.title, 
-                  options.pagePrefix || spaceKey,
-                  undefined
-                );
-            
-            // Check if page exists in dry-run mode
-            const existingPage = await wikiJsClient.getPageByPath(pagePath, namespace);
-            
-            if (existingPage && options.update === false) {
-              console.log(`  ⏭️  Would skip existing page: /${pagePath} (use --update to overwrite)`);
-            } else if (existingPage) {
-              console.log(`  🔄 Would update existing page: /${pagePath}`);
-            } else {
-              console.log(`  ✨ Would create new page: /${pagePath}`);
-            }
-            
-            console.log(`  📊 Content length: ${wikiJsMarkdown.length} characters`);
-            
-            // Count images that would be processed
-            const imageCount = (markdown.match(/!\[([^\]]*)\]\(([^)]+)\)/g) || []).length;
-            if (options.uploadImages && !options.skipImages) {
-              console.log(`  🖼️  Would upload ${imageCount} images to Wiki.js`);
-            } else if (options.skipImages) {
-              console.log(`  ⏭️  Would skip ${imageCount} images`);
-            } else {
-              console.log(`  🖼️  Found ${imageCount} images (use --upload-images to upload to Wiki.js)`);
-            }
-          }
-          
-        } catch (error) {
-          console.error(`  ❌ Error processing page "${page.title}": ${error}`);
-          results.push({
-            confluencePage: page,
-            error: String(error),
-            status: 'error'
-          });
-        }
-      }
-
-      // Clean up temp directory
-      try {
-        await fs.rm(tempImagesDir, { recursive: true });
-      } catch (error) {
-        // Ignore cleanup errors
-      }
-
-      // Create navigation structure if requested
-      if (options.createNavigation && !options.dryRun && results.some(r => r.status === 'success')) {
-        try {
-          console.log(`\n🧭 Creating Wiki.js navigation structure...`);
-          const { WikiJsClient } = await import('./wikijs-client');
-          const successfulPages = results
-            .filter(r => r.status === 'success')
-            .map(r => r.confluencePage);
-          
-          const navigationTree = WikiJsClient.buildNavigationTree(successfulPages, spaceKey);
-          
-          if (navigationTree.length > 0) {
-            const navResult = await wikiJsClient.createNavigation(navigationTree, spaceKey);
-            if (navResult.responseResult.succeeded) {
-              console.log(`  ✅ Navigation structure created successfully`);
-            } else {
-              console.log(`  ⚠️  Navigation creation completed with warnings: ${navResult.responseResult.message}`);
-            }
-          } else {
-            console.log(`  ℹ️  No navigation structure to create (no hierarchical pages found)`);
-          }
-        } catch (error) {
-          console.error(`  ❌ Failed to create navigation: ${error}`);
-        }
+      // Get all pages from the space (or the subtree)
+      const pages = treePages || await confluenceClient.getAllPagesFromSpace(spaceKey, concurrency);
+      if (options.includeBlogPosts) {
+        pages.push(...await confluenceClient.getAllBlogPostsFromSpace(spaceKey, concurrency));
       }
+      console.log(`Found ${pages.length} pages to export`);
 
-      // Summary
-      console.log(`\n🎉 Export completed!`);
-      const successful = results.filter(r => r.status === 'success').length;
-      const failed = results.filter(r => r.status === 'error').length;
-      const skipped = results.filter(r => r.status === 'skipped').length;
-      const totalImages = results.reduce((sum, r) => sum + (r.uploadedAssets?.length || 0), 0);
-      
-      console.log(`✅ Successfully processed: ${successful} pages`);
-      if (skipped > 0) {
-        console.log(`⏭️  Skipped existing: ${skipped} pages (use --update to overwrite)`);
-      }
-      if (failed > 0) {
-        console.log(`❌ Failed: ${failed} pages`);
-      }
-      if (!options.dryRun) {
-        console.log(`🖼️  Total images uploaded: ${totalImages}`);
-      }
-      
+      await exportPagesToWikiJs(confluenceClient, pages, spaceKey, options, config, wikiJsConfig);
     } catch (error) {
       console.error('Error:', error);
       process.exit(1);
@@ -766,7 +1512,7 @@ program
       console.log(`🔄 Update mode: ${options.update !== false ? 'Update existing pages' : 'Skip existing pages'}`);
 
       const wikiJsClient = new (await import('./wikijs-client')).WikiJsClient(wikiJsConfig);
-      const converter = new MarkdownConverter();
+      const converter = createConverter();
 
       // Use markdown editor directly since we know it works
       const markdownEditor = { key: 'markdown' };
@@ -803,8 +1549,7 @@ program
           const markdownContent = await fs.readFile(filePath, 'utf-8');
           
           // Extract title from metadata or filename
-          const titleMatch = markdownContent.match(/^---[\s\S]*?title:\s*["']([^"']+)["'][\s\S]*?---/);
-          const title = titleMatch ? titleMatch[1] : fileName;
+          const title = readFrontMatterTitle(markdownContent) || fileName;
           
           // Generate page path
           const pagePath = options.pagePath || (await import('./wikijs-client')).WikiJsClient.sanitizePagePath(title);
@@ -972,7 +1717,7 @@ program
       
       console.log('🔍 Testing Confluence API connection...');
       console.log(`📡 Base URL: ${config.baseUrl}`);
-      console.log(`👤 Username: ${config.username}`);
+      console.log(`🔑 Authentication: ${client.getAuthStrategy().description}`);
       console.log(`🔒 SSL Check: ${config.ignoreSSL ? 'Disabled' : 'Enabled'}`);
       
       await client.testConnection();
@@ -0,0 +1,57 @@
+import * as fs from 'fs/promises';
+
+/**
+ * Renames or drops Confluence labels before they are used as tags.
+ *
+ * The mapping file is a JSON object from label name to new name, `null` removes the label:
+ * `{ "howto": "how-to", "draft": null }`. Labels that are not listed are kept as they are.
+ */
+export class LabelMapping {
+  readonly rules: Record<string, string | null>;
+
+  constructor(rules: Record<string, string | null> = {}) {
+    this.rules = rules;
+  }
+
+  /**
+   * Load a mapping file, or return an empty mapping if no file is given
+   */
+  static async load(filePath?: string): Promise<LabelMapping> {
+    if (!filePath) {
+      return new LabelMapping();
+    }
+
+    let rules: unknown;
+    try {
+      rules = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Failed to read label mapping file ${filePath}: ${error}`);
+    }
+
+    if (!rules || typeof rules !== 'object' || Array.isArray(rules)) {
+      throw new Error(`Invalid label mapping file ${filePath}: expected an object of "label": "tag" or "label": null entries`);
+    }
+    for (const [label, tag] of Object.entries(rules)) {
+      if (tag !== null && typeof tag !== 'string') {
+        throw new Error(`Invalid label mapping for "${label}" in ${filePath}: expected a string or null`);
+      }
+    }
+
+    console.log(`🏷️  Loaded ${Object.keys(rules).length} label mappings from ${filePath}`);
+    return new LabelMapping(rules as Record<string, string | null>);
+  }
+
+  /**
+   * Apply the mapping to a list of labels, removing ignored labels and duplicates
+   */
+  apply(labels: string[]): string[] {
+    const tags: string[] = [];
+    for (const label of labels) {
+      const tag = Object.prototype.hasOwnProperty.call(this.rules, label) ? this.rules[label] : label;
+      if (tag && !tags.includes(tag)) {
+        tags.push(tag);
+      }
+    }
+    return tags;
+  }
+}
@@ -0,0 +1,147 @@
+import * as path from 'path';
+
+export interface UnresolvedLink {
+  sourceTitle: string;
+  spaceKey: string;
+  title: string;
+}
+
+/**
+ * Matches the placeholder page links produced by MarkdownConverter, both as markdown links
+ * (`](/spaces/KEY/pages/Title#anchor)`) and as HTML attributes (`href="/pages/Title"`).
+ * Links to blog posts contain the posting day instead of `pages` (`/spaces/KEY/blog/2024/03/08/Title`).
+ */
+const PAGE_LINK_PATTERN = /(\]\(|href=")\/(?:spaces\/([^/"\s)]+)\/)?(?:pages|blog\/(\d{4}\/\d{2}\/\d{2}))\/([^"#\s)]+)(#[^"\s)]*)?/g;
+
+/**
+ * Build a relative link path (with forward slashes) from one directory to a file or directory
+ */
+export function toRelativeLinkPath(fromDir: string, target: string): string {
+  const relative = path.relative(fromDir, target).split(path.sep).join('/');
+  if (!relative) {
+    return '.';
+  }
+  return relative === '..' || relative.startsWith('../') ? relative : `./${relative}`;
+}
+
+/**
+ * Resolves Confluence page links once every page of an export has been converted.
+ * Targets are registered per (space key, page title) pair; links to pages outside the
+ * export fall back to an absolute Confluence URL.
+ */
+export class LinkResolver {
+  private targets = new Map<string, string>();
+  private unresolvedLinks: UnresolvedLink[] = [];
+  private confluenceBaseUrl?: string;
+
+  constructor(confluenceBaseUrl?: string) {
+    this.confluenceBaseUrl = confluenceBaseUrl?.replace(/\/$/, '');
+  }
+
+  /**
+   * Register the export target (file path or wiki path) of a page, or of a blog post with its posting day
+   */
+  register(spaceKey: string, title: string, target: string, postingDay?: string): void {
+    this.targets.set(this.getPageKey(spaceKey, title, postingDay), target);
+  }
+
+  /**
+   * Look up the registered target of a page, or of a blog post with its posting day
+   */
+  resolve(spaceKey: string, title: string, postingDay?: string): string | undefined {
+    return this.targets.get(this.getPageKey(spaceKey, title, postingDay));
+  }
+
+  /**
+   * Key of a page, the same for every spelling of its title. Blog posts are only unique per day
+   * and never share a key with a page of the same title.
+   */
+  getPageKey(spaceKey: string, title: string, postingDay?: string): string {
+    // Confluence page titles are unique per space regardless of case, space keys cannot contain a slash or colon
+    return postingDay
+      ? `${spaceKey.toLowerCase()}:blog/${postingDay}/${title.toLowerCase()}`
+      : `${spaceKey.toLowerCase()}/${title.toLowerCase()}`;
+  }
+
+  /**
+   * Keys of the pages that the placeholder page links in markdown point to
+   */
+  getLinkedPageKeys(markdown: string, currentSpaceKey: string): string[] {
+    const keys = new Set<string>();
+    for (const [, , linkSpaceKey, postingDay, encodedTitle] of markdown.matchAll(PAGE_LINK_PATTERN)) {
+      try {
+        keys.add(this.getPageKey(linkSpaceKey || currentSpaceKey, decodeURIComponent(encodedTitle), postingDay));
+      } catch {
+        // Malformed titles are left as they are by rewriteLinks as well
+      }
+    }
+    return [...keys];
+  }
+
+  /**
+   * Rewrite placeholder page links in markdown.
+   * `formatTarget` turns a registered target into the href used from the current page.
+   */
+  rewriteLinks(
+    markdown: string,
+    currentSpaceKey: string,
+    formatTarget: (target: string) => string,
+    sourceTitle: string = ''
+  ): string {
+    return markdown.replace(PAGE_LINK_PATTERN, (match, prefix, linkSpaceKey, postingDay, encodedTitle, anchor = '') => {
+      let title: string;
+      try {
+        title = decodeURIComponent(encodedTitle);
+      } catch {
+        return match;
+      }
+
+      const spaceKey = linkSpaceKey || currentSpaceKey;
+      const target = this.resolve(spaceKey, title, postingDay);
+      if (target !== undefined) {
+        return `${prefix}${formatTarget(target)}${anchor}`;
+      }
+
+      this.unresolvedLinks.push({ sourceTitle, spaceKey, title });
+      if (!this.confluenceBaseUrl) {
+        return match;
+      }
+      return `${prefix}${this.getConfluenceUrl(spaceKey, title, postingDay)}${anchor}`;
+    });
+  }
+
+  /**
+   * Rewrite placeholder page links into relative links between exported markdown files
+   */
+  rewriteLinksToFiles(markdown: string, currentSpaceKey: string, filePath: string, sourceTitle?: string): string {
+    const fromDir = path.dirname(filePath);
+    return this.rewriteLinks(
+      markdown,
+      currentSpaceKey,
+      target => this.encodeLinkPath(toRelativeLinkPath(fromDir, target)),
+      sourceTitle
+    );
+  }
+
+  /**
+   * Links that could not be resolved to a page of the export
+   */
+  getUnresolvedLinks(): UnresolvedLink[] {
+    return [...this.unresolvedLinks];
+  }
+
+  /**
+   * Build the absolute Confluence URL of a page or blog post
+   */
+  private getConfluenceUrl(spaceKey: string, title: string, postingDay?: string): string {
+    const day = postingDay ? `${postingDay}/` : '';
+    return `${this.confluenceBaseUrl}/display/${encodeURIComponent(spaceKey)}/${day}${this.encodeLinkPath(encodeURIComponent(title))}`;
+  }
+
+  /**
+   * Encode characters that would end or split a markdown link target
+   */
+  private encodeLinkPath(linkPath: string): string {
+    return linkPath.replace(/[\s#()]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`);
+  }
+}
@@ -0,0 +1,58 @@
+import * as path from 'path';
+
+/**
+ * A macro of the page being converted, as seen by a macro handler
+ */
+export interface MacroInvocation {
+  /**
+   * Macro name, lower-cased (e.g. `jira`, `my-company-status`)
+   */
+  name: string;
+  /**
+   * Macro parameters keyed by name, the default (unnamed) parameter has an empty name
+   */
+  parameters: Record<string, string>;
+  /**
+   * Text of the plain text body (e.g. of code-like macros)
+   */
+  plainTextBody?: string;
+  /**
+   * Rich text body, already converted to Markdown
+   */
+  richTextBody?: string;
+  /**
+   * ID of the page (or comment) the macro belongs to
+   */
+  pageId?: string;
+}
+
+/**
+ * Converts a macro into Markdown. Returning `undefined` leaves the macro to the built-in handling.
+ */
+export type MacroHandler = (macro: MacroInvocation) => string | undefined;
+
+/**
+ * Load the macro handlers of a local module. The module exports an object of handlers keyed by
+ * macro name, either as `module.exports` or as the default export:
+ * `module.exports = { 'my-macro': macro => '**' + macro.parameters.title + '**' }`.
+ */
+export function loadMacroHandlerModule(modulePath: string): Record<string, MacroHandler> {
+  const resolvedPath = path.resolve(modulePath);
+  let exported: any;
+  try {
+    exported = require(resolvedPath);
+  } catch (error) {
+    throw new Error(`Failed to load macro handler module ${modulePath}: ${error}`);
+  }
+
+  const handlers = exported && exported.__esModule && exported.default ? exported.default : exported;
+  if (!handlers || typeof handlers !== 'object') {
+    throw new Error(`Invalid macro handler module ${modulePath}: expected an object of "macro name": handler function entries`);
+  }
+  for (const [name, handler] of Object.entries(handlers)) {
+    if (typeof handler !== 'function') {
+      throw new Error(`Invalid macro handler for "${name}" in ${modulePath}: expected a function`);
+    }
+  }
+  return handlers as Record<string, MacroHandler>;
+}
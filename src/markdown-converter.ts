@@ -1,16 +1,152 @@
 import TurndownService from 'turndown';
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { ConfluencePage } from './types';
+import { ConfluenceComment, ConfluencePage, RetryConfig } from './types';
+import { toRelativeLinkPath } from './link-resolver';
+import { ExportManifest } from './export-manifest';
+import { AuthStrategy, applyAuthStrategy } from './auth';
+import { applyRetryPolicy } from './http-retry';
+import { mapWithConcurrency } from './concurrency';
+import { FrontMatter } from './front-matter';
+import { MacroHandler, loadMacroHandlerModule } from './macro-handlers';
+import { CalloutStyle, CalloutType, convertGitHubAlertsToWikiJs, getAdfPanelType, getPanelMacroType, renderCallout } from './callouts';
+import { HeadingAnchorStyle, collectHeadings, renderTableOfContents } from './table-of-contents';
+import { PageSortOrder, PageTree, getPageListSource, parsePageSortOrder, sortPages } from './page-tree';
+import { createBlogPostPaths } from './blog-posts';
+import { ChildNode, Element, Text } from 'domhandler';
+import { DomUtils } from 'htmlparser2';
+import {
+  StorageNodeVisitor,
+  createComment,
+  createElement,
+  createText,
+  getChildElement,
+  getChildElements,
+  getMacroName,
+  getMacroParameters,
+  getNamespace,
+  getTextContent,
+  hasAncestor,
+  parseStorageFormat,
+  renderStorageFormat,
+  visitStorageFormat,
+} from './storage-format';
 
 export interface ConversionOptions {
   preserveHtmlTables?: boolean;
   pageId?: string;
+  /**
+   * Comments of the page; inline comment markers are turned into links to their thread
+   */
+  comments?: ConfluenceComment[];
+  /**
+   * Markdown syntax of info, note, warning, tip and other panels (default: GitHub alerts)
+   */
+  calloutStyle?: CalloutStyle;
+  /**
+   * Rules for the heading IDs that tables of contents link to (default: GitHub)
+   */
+  headingAnchors?: HeadingAnchorStyle;
+  /**
+   * Written instead of a generated table of contents for toc macros, e.g. `[[toc]]` for Wiki.js
+   */
+  tocPlaceholder?: string;
+  /**
+   * Page hierarchy of the export; `children`, `pagetree` and `listlabels` macros become lists of links
+   */
+  pageTree?: PageTree;
+  /**
+   * Collects the parts of the page tree that the page lists were built from (see `getPageListSource`)
+   */
+  pageListSources?: Set<string>;
+}
+
+export interface ImageDownloadOptions {
+  /**
+   * Directory of the markdown file, image links are made relative to it (defaults to `./images`)
+   */
+  markdownDir?: string;
+  /**
+   * Hashes of previously downloaded images keyed by filename, unchanged files are not downloaded again
+   */
+  knownImages?: Record<string, string>;
+  /**
+   * Number of images downloaded at the same time (default: 1)
+   */
+  concurrency?: number;
+}
+
+/**
+ * Provides attachment files without a Confluence server, e.g. from an XML export archive.
+ * Can be passed instead of the authentication to the image download methods.
+ */
+export interface AttachmentSource {
+  readAttachment(pageId: string, filename: string): Promise<Buffer>;
+}
+
+export interface ImageDownloadResult {
+  markdown: string;
+  /**
+   * SHA-256 hashes of the local image files referenced by the markdown, keyed by filename
+   */
+  images: Record<string, string>;
+}
+
+export interface PageFileOptions extends ConversionOptions {
+  /**
+   * Output path relative to the output directory (defaults to `<title>.md`)
+   */
+  relativePath?: string;
+  /**
+   * Value of the `exported` metadata field (defaults to the current time)
+   */
+  timestamp?: string;
+  /**
+   * Fields or template of the front matter (defaults to all metadata fields)
+   */
+  frontMatter?: FrontMatter;
+  /**
+   * Space key written to the front matter if the page does not include its space
+   */
+  spaceKey?: string;
+}
+
+/**
+ * State shared by the node visitors while one storage format document is converted
+ */
+interface StorageConversionContext {
+  pageId?: string;
+  preserveHtmlTables?: boolean;
+  calloutStyle: CalloutStyle;
+  tocPlaceholder?: string;
+  pageTree?: PageTree;
+  pageListSources?: Set<string>;
+  inlineCommentThreads: Map<string, { comment: ConfluenceComment; number: number }>;
+  /**
+   * Parameters of the toc macros, filled in once the headings of the whole page are known
+   */
+  tablesOfContents: Record<string, string>[];
 }
 
 export class MarkdownConverter {
   private turndownService: TurndownService;
   private htmlTableTurndownService: TurndownService;
+  private pendingDownloads = new Map<string, Promise<string>>();
+  private defaultFrontMatter = new FrontMatter();
+  private macroHandlers = new Map<string, MacroHandler>();
+  private storageVisitors = new Map<string, StorageNodeVisitor<StorageConversionContext>>([
+    ['ac:structured-macro', (macro, context) => this.visitMacro(macro, context)],
+    ['ac:macro', (macro, context) => this.visitMacro(macro, context)],
+    ['ac:image', (image, context) => this.visitImage(image, context)],
+    ['ac:link', link => this.visitLink(link)],
+    ['ac:inline-comment-marker', (marker, context) => this.visitInlineCommentMarker(marker, context)],
+    ['ac:task-list', taskList => this.visitTaskList(taskList)],
+    ['ac:adf-extension', (extension, context) => this.visitAdfExtension(extension, context)],
+    ['time', time => this.visitTime(time)],
+    ['th', cell => this.visitTableCell(cell)],
+    ['td', cell => this.visitTableCell(cell)],
+    ['table', table => this.visitTable(table)],
+  ]);
 
   constructor() {
     this.turndownService = new TurndownService({
@@ -44,6 +180,39 @@ export class MarkdownConverter {
     this.applyHtmlTableRules(this.htmlTableTurndownService);
   }
 
+  /**
+   * Register a handler that converts a macro into Markdown. Registered handlers take precedence over
+   * the built-in macro handling, so they can also replace it (e.g. for `code` or `info`).
+   */
+  registerMacroHandler(macroName: string, handler: MacroHandler): void {
+    this.macroHandlers.set(macroName.toLowerCase(), handler);
+  }
+
+  /**
+   * Remove the handler of a macro, the built-in handling is used again
+   */
+  unregisterMacroHandler(macroName: string): void {
+    this.macroHandlers.delete(macroName.toLowerCase());
+  }
+
+  /**
+   * Names of the macros with a registered handler
+   */
+  getMacroHandlerNames(): string[] {
+    return Array.from(this.macroHandlers.keys());
+  }
+
+  /**
+   * Register the handlers exported by local modules (see `loadMacroHandlerModule`)
+   */
+  loadMacroHandlers(modulePaths: string[]): void {
+    for (const modulePath of modulePaths) {
+      const handlers = loadMacroHandlerModule(modulePath);
+      Object.entries(handlers).forEach(([macroName, handler]) => this.registerMacroHandler(macroName, handler));
+      console.log(`🧩 Loaded ${Object.keys(handlers).length} macro handlers from ${modulePath}`);
+    }
+  }
+
   /**
    * Convert HTML content to Markdown
    */
@@ -58,132 +227,530 @@ export class MarkdownConverter {
       options = optionsOrPageId || {};
     }
 
+    const context: StorageConversionContext = {
+      pageId: options.pageId,
+      preserveHtmlTables: options.preserveHtmlTables,
+      calloutStyle: options.calloutStyle || 'github',
+      tocPlaceholder: options.tocPlaceholder,
+      pageTree: options.pageTree,
+      pageListSources: options.pageListSources,
+      inlineCommentThreads: this.getInlineCommentThreads(options.comments || []),
+      tablesOfContents: [],
+    };
+
     // Pre-process HTML to handle Confluence-specific elements
-    const processedHtml = this.preprocessConfluenceHtml(html, options.pageId);
+    const processedHtml = this.preprocessConfluenceHtml(html, context);
     
     // Choose the appropriate conversion service
     const service = options.preserveHtmlTables ? this.htmlTableTurndownService : this.turndownService;
-    return service.turndown(processedHtml);
+    const markdown = service.turndown(processedHtml);
+    return this.insertTablesOfContents(markdown, context, options.headingAnchors || 'github');
   }
 
   /**
-   * Pre-process HTML to handle Confluence-specific elements that TurndownService can't handle natively
+   * Pre-process HTML to handle Confluence-specific elements that TurndownService can't handle natively.
+   * The storage format is parsed once and every Confluence element is replaced by its node visitor.
    */
-  private preprocessConfluenceHtml(html: string, pageId?: string): string {
-    let processedHtml = html;
-    
-    console.log('Debug: Starting HTML preprocessing...');
-    
-    // Handle Confluence table macros first
-    processedHtml = this.preprocessConfluenceTables(processedHtml);
-    
-    // Handle Confluence code macros
-    processedHtml = processedHtml.replace(
-      /<ac:structured-macro\s+ac:name="(code|noformat)"[^>]*>([\s\S]*?)<\/ac:structured-macro>/gi,
-      (match, macroName, content) => {
-        console.log(`Debug: Found ${macroName} macro:`, match.substring(0, 200) + '...');
-        
-        // Extract language parameter
-        const languageMatch = content.match(/<ac:parameter\s+ac:name="language"[^>]*>(.*?)<\/ac:parameter>/i);
-        const language = languageMatch ? languageMatch[1].trim() : '';
-        
-        // Extract code content from CDATA
-        const cdataMatch = content.match(/<ac:plain-text-body><!\[CDATA\[([\s\S]*?)\]\]><\/ac:plain-text-body>/i);
-        const codeContent = cdataMatch ? cdataMatch[1].trim() : '';
-        
-        console.log(`Debug: Extracted language: "${language}"`);
-        console.log(`Debug: Extracted code (first 100 chars): "${codeContent.substring(0, 100)}..."`);
-        
-        if (codeContent) {
-          // Convert to a standard pre/code block that TurndownService can handle
-          return `<pre><code class="language-${language}">${this.escapeHtml(codeContent)}</code></pre>`;
-        } else {
-          console.log('Debug: No code content found, returning comment');
-          return `<!-- Confluence ${macroName} macro (content not extracted) -->\n`;
-        }
+  private preprocessConfluenceHtml(html: string, context: StorageConversionContext): string {
+    const document = parseStorageFormat(html);
+    visitStorageFormat(document, this.storageVisitors, context);
+    return renderStorageFormat(document);
+  }
+
+  /**
+   * Replace the markers of toc macros with the headings of the converted page. The table of
+   * contents keeps the indentation or blockquote prefix of the marker, e.g. inside a callout.
+   */
+  private insertTablesOfContents(markdown: string, context: StorageConversionContext, anchorStyle: HeadingAnchorStyle): string {
+    if (context.tablesOfContents.length === 0) {
+      return markdown;
+    }
+    const headings = collectHeadings(markdown, anchorStyle);
+    return markdown.replace(/^(.*?)<!-- toc:(\d+) -->[ \t]*(\n*)/gm, (match, prefix: string, index: string, newlines: string) => {
+      const tableOfContents = renderTableOfContents(headings, context.tablesOfContents[Number(index)] || {});
+      const isIndentation = /^[\s>]*$/.test(prefix);
+      if (!tableOfContents) {
+        // Without matching headings the marker line disappears
+        return isIndentation ? '' : `${prefix}${newlines}`;
       }
-    );
-    
-    // Handle Confluence image elements
-    processedHtml = processedHtml.replace(
-      /<ac:image[^>]*>([\s\S]*?)<\/ac:image>/gi,
-      (match, content) => {
-        console.log(`Debug: Found ac:image element:`, match.substring(0, 200) + '...');
-        
-        // Extract width/height attributes from ac:image
-        const widthMatch = match.match(/ac:width="([^"]+)"/i);
-        const heightMatch = match.match(/ac:height="([^"]+)"/i);
-        const width = widthMatch ? widthMatch[1] : '';
-        const height = heightMatch ? heightMatch[1] : '';
-        
-        // Extract attachment filename
-        const attachmentMatch = content.match(/<ri:attachment\s+ri:filename="([^"]+)"/i);
-        if (attachmentMatch) {
-          const filename = attachmentMatch[1];
-          console.log(`Debug: Extracted attachment filename: "${filename}"`);
-          
-          // Create a standard img tag that our image processing can handle
-          // Use the page ID to build the download URL, encoding the filename for URLs
-          const encodedFilename = encodeURIComponent(filename);
-          const downloadUrl = pageId 
-            ? `/download/attachments/${pageId}/${encodedFilename}`
-            : `/download/attachments/PAGE_ID/${encodedFilename}`;
-          let imgTag = `<img src="${downloadUrl}" alt="${filename}"`;
-          
-          if (width) imgTag += ` width="${width}"`;
-          if (height) imgTag += ` height="${height}"`;
-          imgTag += ` />`;
-          
-          console.log(`Debug: Converted to img tag: ${imgTag}`);
-          console.log(`Debug: Encoded filename "${filename}" -> "${encodedFilename}"`);
-          return `\n${imgTag}\n`;
-        }
-        
-        // If we can't extract the attachment, return a comment
-        console.log('Debug: Could not extract attachment filename');
-        return `<!-- Confluence Image (could not extract attachment) -->\n`;
+      return `${prefix}${tableOfContents.split('\n').join(`\n${isIndentation ? prefix : ''}`)}${newlines}`;
+    });
+  }
+
+  /**
+   * Convert a macro into plain HTML: code blocks, table wrappers and panels are kept,
+   * other macros are reduced to their rich text body
+   */
+  private visitMacro(macro: Element, context: StorageConversionContext): ChildNode[] {
+    const macroName = getMacroName(macro);
+    const parameters = getMacroParameters(macro);
+    const plainTextBody = getChildElement(macro, 'ac:plain-text-body');
+    const richTextBody = getChildElement(macro, 'ac:rich-text-body');
+
+    const handler = this.macroHandlers.get(macroName);
+    if (handler) {
+      let markdown: string | undefined;
+      try {
+        markdown = handler({
+          name: macroName,
+          parameters,
+          plainTextBody: plainTextBody ? getTextContent(plainTextBody) : undefined,
+          richTextBody: richTextBody ? this.convertStorageNodes(richTextBody, context) : undefined,
+          pageId: context.pageId,
+        });
+      } catch (error) {
+        throw new Error(`Macro handler for "${macroName}" failed: ${error}`);
       }
-    );
-    
-    // Handle other Confluence macros
-    processedHtml = processedHtml.replace(
-      /<ac:structured-macro\s+ac:name="([^"]+)"[^>]*>([\s\S]*?)<\/ac:structured-macro>/gi,
-      (match, macroName, content) => {
-        console.log(`Debug: Found ${macroName} macro`);
-        
-        // For info, warning, note macros, extract the content
-        if (['info', 'warning', 'note', 'tip'].includes(macroName.toLowerCase())) {
-          const richTextMatch = content.match(/<ac:rich-text-body>([\s\S]*?)<\/ac:rich-text-body>/i);
-          if (richTextMatch) {
-            const innerContent = richTextMatch[1];
-            return `<div class="confluence-macro-${macroName.toLowerCase()}">${innerContent}</div>`;
-          }
-        }
-        
-        // Default handling for other macros
-        return `<!-- Confluence Macro: ${macroName} -->${content}<!-- End ${macroName} -->`;
+      if (markdown !== undefined && markdown !== null) {
+        return this.createMarkdownNodes(markdown);
       }
-    );
-    
-    // Handle Confluence link macros
-    processedHtml = this.processConfluenceLinks(processedHtml);
-    
-    console.log('Debug: HTML preprocessing completed');
-    return processedHtml;
+    }
+
+    if (macroName === 'code' || macroName === 'noformat') {
+      // Drop the blank lines around the code, but keep the indentation of the first line
+      const codeContent = plainTextBody ? getTextContent(plainTextBody).replace(/^\s*\n|\s+$/g, '') : '';
+      if (!codeContent) {
+        return [createComment(`Confluence ${macroName} macro (content not extracted)`)];
+      }
+      // Convert to a standard pre/code block that TurndownService can handle
+      const code = createElement('code', { class: `language-${parameters.language || ''}` }, [createText(codeContent)]);
+      return [createElement('pre', {}, [code])];
+    }
+
+    if (macroName === 'table' && richTextBody) {
+      // Return the table HTML directly
+      return [...richTextBody.children];
+    }
+
+    if (macroName === 'toc') {
+      // The headings are only known once the whole page is converted, until then the macro is a marker
+      if (context.tocPlaceholder) {
+        return this.createMarkdownNodes(context.tocPlaceholder, true);
+      }
+      context.tablesOfContents.push(parameters);
+      return this.createMarkdownNodes(`<!-- toc:${context.tablesOfContents.length - 1} -->`, true);
+    }
+
+    if (['children', 'pagetree', 'listlabels'].includes(macroName) && context.pageTree) {
+      const pageList = this.createPageListNodes(macroName, parameters, context.pageTree, context.pageId, context.pageListSources);
+      if (pageList) {
+        return pageList;
+      }
+    }
+
+    if (macroName === 'expand') {
+      // Collapsible block with Markdown inside; nested expands are already converted
+      const title = parameters.title || 'Click here to expand...';
+      const body = richTextBody ? this.convertStorageNodes(richTextBody, context).trim() : '';
+      return this.createMarkdownNodes(`<details>\n<summary>${escapeHtmlText(title)}</summary>\n\n${body}\n\n</details>`);
+    }
+
+    // Info, note, warning, tip and plain panels become callouts that keep their title
+    const calloutType = getPanelMacroType(macroName);
+    if (calloutType) {
+      return this.createCalloutNodes(macro, calloutType, richTextBody, context, parameters.title);
+    }
+
+    // Inline macros without a body show one of their parameters
+    const inlineText = macroName === 'status' ? parameters.title : macroName === 'jira' ? parameters.key : undefined;
+
+    // Default handling for other macros
+    return [
+      createComment(`Confluence Macro: ${macroName}`),
+      ...(richTextBody ? [...richTextBody.children] : inlineText ? [createText(inlineText)] : []),
+      createComment(`End ${macroName}`),
+    ];
+  }
+
+  /**
+   * Convert a panel of the Cloud editor, which is stored as an ADF node with a storage format
+   * fallback. Other ADF extensions are left as they are.
+   */
+  private visitAdfExtension(extension: Element, context: StorageConversionContext): ChildNode[] | void {
+    const node = getChildElement(extension, 'ac:adf-node');
+    if (!node || node.attribs.type !== 'panel') {
+      return;
+    }
+    const panelType = getChildElements(node, 'ac:adf-attribute').find(attribute => attribute.attribs.key === 'panel-type');
+    const type = getAdfPanelType(panelType ? getTextContent(panelType) : '');
+    return this.createCalloutNodes(extension, type, getChildElement(node, 'ac:adf-content'), context);
+  }
+
+  /**
+   * Render a panel body as a callout in the configured syntax. Table cells cannot hold
+   * blockquotes, so panels inside tables keep only their title and content.
+   */
+  private createCalloutNodes(
+    panel: Element,
+    type: CalloutType,
+    body: Element | undefined,
+    context: StorageConversionContext,
+    title?: string
+  ): ChildNode[] {
+    if (hasAncestor(panel, ['td', 'th'])) {
+      const children = body ? [...body.children] : [];
+      if (!title) {
+        return children;
+      }
+      // The title leads the first paragraph, so it stays apart from the content in the cell text
+      const firstElement = children.find(child => !(child instanceof Text && !child.data.trim()));
+      if (firstElement instanceof Element && firstElement.name === 'p') {
+        DomUtils.prependChild(firstElement, createText(': '));
+        DomUtils.prependChild(firstElement, createElement('strong', {}, [createText(title)]));
+        return children;
+      }
+      return [createElement('strong', {}, [createText(title)]), ...(children.length > 0 ? [createText(': ')] : []), ...children];
+    }
+    const content = body ? this.convertStorageNodes(body, context) : '';
+    if (!content.trim() && !title) {
+      return [];
+    }
+    return this.createMarkdownNodes(renderCallout(context.calloutStyle, type, content, title), true);
   }
 
   /**
-   * Escape HTML characters
+   * Write the page lists Confluence renders when the page is viewed: the children of a page
+   * (`children`), a page tree (`pagetree`) or the labels of the space with their pages (`listlabels`).
+   * Returns undefined if the pages of the macro are not part of the export.
    */
-  private escapeHtml(text: string): string {
-    const map: { [key: string]: string } = {
-      '&': '&amp;',
-      '<': '&lt;',
-      '>': '&gt;',
-      '"': '&quot;',
-      "'": '&#039;'
+  private createPageListNodes(
+    macroName: string,
+    parameters: Record<string, string>,
+    pageTree: PageTree,
+    pageId?: string,
+    sources?: Set<string>
+  ): ChildNode[] | undefined {
+    const sort = parsePageSortOrder(parameters.sort);
+    const reverse = parameters.reverse === 'true';
+
+    if (macroName === 'listlabels') {
+      sources?.add(getPageListSource('labels', '', sort));
+      const excludedLabels = (parameters.excludedLabels || '').split(',').map(label => label.trim().toLowerCase());
+      const labels = Array.from(pageTree.getLabeledPages())
+        .filter(([label]) => !excludedLabels.includes(label.toLowerCase()))
+        .sort(([a], [b]) => a.localeCompare(b));
+      if (labels.length === 0) {
+        return [];
+      }
+      return [createElement('ul', {}, labels.map(([label, pages]) => createElement('li', {}, [
+        createText(label),
+        this.createPageList(pageTree, sortPages(pages, sort, reverse), 1, sort, reverse, sources),
+      ])))];
+    }
+
+    // children lists one level unless told otherwise, a page tree is shown fully expanded
+    const depth = parameters.all === 'true' ? Infinity : parseInt(parameters.depth, 10) || (macroName === 'children' ? 1 : Infinity);
+    const currentPage = pageId ? pageTree.getPage(pageId) : undefined;
+    const rootReference = macroName === 'children' ? parameters.page || '@self' : parameters.root || '@home';
+
+    // Every part of the tree the list is built from is recorded, to find lists that changed later
+    const getChildren = (parentId: string) => {
+      sources?.add(getPageListSource('children', parentId, sort));
+      return pageTree.getChildren(parentId);
+    };
+    const getTopLevelPages = () => {
+      sources?.add(getPageListSource('top-level', '', sort));
+      return pageTree.getTopLevelPages();
+    };
+    const findPageByTitle = (title: string) => {
+      sources?.add(getPageListSource('title', title));
+      return pageTree.findPageByTitle(title);
     };
-    return text.replace(/[&<>"']/g, (m) => map[m]);
+
+    let pages: ConfluencePage[] | undefined;
+    if (rootReference === '@self') {
+      pages = currentPage && getChildren(currentPage.id);
+    } else if (rootReference === '@parent') {
+      sources?.add(getPageListSource('parent', pageId));
+      const parentId = currentPage && pageTree.getParentId(currentPage);
+      pages = parentId ? getChildren(parentId) : currentPage && getTopLevelPages();
+    } else if (rootReference === '@none') {
+      pages = getTopLevelPages();
+    } else if (rootReference === '@home') {
+      // The home page is usually the only top-level page, its children form the tree
+      const topLevelPages = getTopLevelPages();
+      pages = topLevelPages.length === 1 ? getChildren(topLevelPages[0].id) : topLevelPages;
+    } else {
+      // Page parameters are links to the root page, which are already reduced to the page title,
+      // or titles with the space key in front (`KEY:Title`)
+      const rootPage = findPageByTitle(rootReference) || findPageByTitle(rootReference.replace(/^[^:]+:/, ''));
+      pages = rootPage && getChildren(rootPage.id);
+    }
+    if (!pages) {
+      return undefined;
+    }
+
+    let sortedPages = sortPages(pages, sort, reverse);
+    const first = parseInt(parameters.first, 10);
+    if (first > 0) {
+      sortedPages = sortedPages.slice(0, first);
+    }
+    return sortedPages.length > 0 ? [this.createPageList(pageTree, sortedPages, depth, sort, reverse, sources)] : [];
+  }
+
+  /**
+   * Nested list of links to pages and their descendants, down to the given depth
+   */
+  private createPageList(
+    pageTree: PageTree,
+    pages: ConfluencePage[],
+    depth: number,
+    sort: PageSortOrder,
+    reverse: boolean,
+    sources?: Set<string>
+  ): Element {
+    return createElement('ul', {}, pages.map(page => {
+      if (depth > 1) {
+        sources?.add(getPageListSource('children', page.id, sort));
+      }
+      const children = depth > 1 ? pageTree.getChildren(page.id) : [];
+      return createElement('li', {}, [
+        createElement('a', { href: this.buildPageLinkHref(page.space?.key, page.title) }, [createText(page.title)]),
+        ...(children.length > 0 ? [this.createPageList(pageTree, sortPages(children, sort, reverse), depth - 1, sort, reverse, sources)] : []),
+      ]);
+    }));
+  }
+
+  /**
+   * Convert already visited storage format nodes to Markdown, e.g. the rich text body of a macro
+   */
+  private convertStorageNodes(parent: Element, context: StorageConversionContext): string {
+    const service = context.preserveHtmlTables ? this.htmlTableTurndownService : this.turndownService;
+    return service.turndown(renderStorageFormat(parent));
+  }
+
+  /**
+   * Wrap Markdown produced by a macro handler, so Turndown writes it unchanged (see the `macroMarkdown` rule).
+   * Multi-line Markdown becomes a block unless told otherwise, everything else stays inline.
+   */
+  private createMarkdownNodes(markdown: string, block = markdown.includes('\n')): ChildNode[] {
+    if (!markdown.trim()) {
+      return [];
+    }
+    const tagName = block ? 'div' : 'span';
+    return [createElement(tagName, { 'data-macro-markdown': markdown }, [createText(markdown)])];
+  }
+
+  /**
+   * Convert an image into an img tag that our image processing can handle
+   */
+  private visitImage(image: Element, context: StorageConversionContext): ChildNode[] {
+    const attachment = getChildElement(image, 'ri:attachment');
+    const url = getChildElement(image, 'ri:url');
+    const attribs: Record<string, string> = {};
+
+    if (attachment?.attribs['ri:filename']) {
+      // Use the page ID to build the download URL, encoding the filename for URLs
+      const filename = attachment.attribs['ri:filename'];
+      attribs.src = `/download/attachments/${context.pageId || 'PAGE_ID'}/${encodeURIComponent(filename)}`;
+      attribs.alt = filename;
+    } else if (url?.attribs['ri:value']) {
+      attribs.src = url.attribs['ri:value'];
+      attribs.alt = image.attribs['ac:alt'] || '';
+    } else {
+      return [createComment('Confluence Image (could not extract attachment)')];
+    }
+
+    if (image.attribs['ac:width']) attribs.width = image.attribs['ac:width'];
+    if (image.attribs['ac:height']) attribs.height = image.attribs['ac:height'];
+    return [createText('\n'), createElement('img', attribs), createText('\n')];
+  }
+
+  /**
+   * Convert a link to a page, space or anchor into an HTML link.
+   * Links to other resources (attachments, users) are reduced to their text.
+   */
+  private visitLink(link: Element): ChildNode[] {
+    const anchor = link.attribs['ac:anchor'];
+    const page = getChildElement(link, 'ri:page');
+    const blogPost = getChildElement(link, 'ri:blog-post');
+    const space = getChildElement(link, 'ri:space');
+    const resource = getChildElements(link).find(child => getNamespace(child) === 'ri');
+
+    // The link body is rich text, plain text, or missing (legacy links nest it in the resource)
+    const richBody = getChildElement(link, 'ac:link-body');
+    const plainBody = getChildElement(link, 'ac:plain-text-link-body')
+      || (resource && getChildElement(resource, 'ac:plain-text-link-body'));
+    const plainText = plainBody ? getTextContent(plainBody).trim() : '';
+    const body = (defaultText: string) => richBody && richBody.children.length > 0
+      ? [...richBody.children]
+      : [createText(plainText || defaultText)];
+
+    if (page?.attribs['ri:content-title']) {
+      const title = page.attribs['ri:content-title'];
+      return [createElement('a', { href: this.buildPageLinkHref(page.attribs['ri:space-key'], title, anchor) }, body(title))];
+    }
+    if (blogPost?.attribs['ri:content-title'] && /^\d{4}\/\d{2}\/\d{2}$/.test(blogPost.attribs['ri:posting-day'] || '')) {
+      const title = blogPost.attribs['ri:content-title'];
+      const href = this.buildPageLinkHref(blogPost.attribs['ri:space-key'], title, anchor, blogPost.attribs['ri:posting-day']);
+      return [createElement('a', { href }, body(title))];
+    }
+    if (space?.attribs['ri:space-key']) {
+      const spaceKey = space.attribs['ri:space-key'];
+      return [createElement('a', { href: `/spaces/${spaceKey}` }, body(spaceKey))];
+    }
+    if (anchor && !resource) {
+      return [createElement('a', { href: `#${encodeURIComponent(anchor)}` }, body(anchor))];
+    }
+
+    // User mentions show the username (Server/Data Center) or the account ID or user key
+    const user = getChildElement(link, 'ri:user');
+    if (user) {
+      return body(`@${user.attribs['ri:username'] || user.attribs['ri:account-id'] || user.attribs['ri:userkey'] || 'user'}`);
+    }
+
+    // Try to find any meaningful text for links that can't be resolved
+    const resourceName = resource?.attribs['ri:filename'] || resource?.attribs['ri:content-title'] || resource?.attribs['ri:space-key'];
+    return body(resourceName || 'Link');
+  }
+
+  /**
+   * Convert a task list into a list whose items carry their status for the `taskListItem` rule.
+   * Nested task lists (already converted) stay inside their task.
+   */
+  private visitTaskList(taskList: Element): ChildNode[] {
+    const items = getChildElements(taskList, 'ac:task').map(task => {
+      const status = getTextContent(getChildElement(task, 'ac:task-status') || []).trim().toLowerCase();
+      const body = getChildElement(task, 'ac:task-body');
+      const nestedLists = getChildElements(task, 'ul');
+      return createElement('li', { 'data-task-status': status === 'complete' ? 'complete' : 'incomplete' }, [
+        ...(body ? body.children : []),
+        ...nestedLists,
+      ]);
+    });
+    return [createElement('ul', {}, items)];
+  }
+
+  /**
+   * Dates (e.g. task due dates) are often empty elements with only a datetime attribute
+   */
+  private visitTime(time: Element): ChildNode[] | void {
+    if (!getTextContent(time).trim() && time.attribs.datetime) {
+      return [createText(time.attribs.datetime)];
+    }
+  }
+
+  /**
+   * Link the text of inline comment markers to the comment thread in the Comments section.
+   * Markers without a matching comment (or when comments are not exported) keep just their text.
+   */
+  private visitInlineCommentMarker(marker: Element, context: StorageConversionContext): ChildNode[] {
+    const thread = context.inlineCommentThreads.get(marker.attribs['ac:ref'] || '');
+    if (!thread) {
+      return [...marker.children];
+    }
+    const commentLink = createElement('a', { href: `#comment-${thread.comment.id}` }, [createText(`💬 ${thread.number}`)]);
+    return [...marker.children, createText(' '), commentLink];
+  }
+
+  /**
+   * Remove Confluence table cell classes but preserve styling attributes, and trim the cell content.
+   * Empty cells get a space, so every cell of the row is kept.
+   */
+  private visitTableCell(cell: Element): void {
+    if (/confluenceT[hd]/i.test(cell.attribs.class || '')) {
+      delete cell.attribs.class;
+    }
+
+    const first = cell.children[0];
+    if (first instanceof Text) {
+      first.data = first.data.replace(/^\s+/, '');
+    }
+    const last = cell.children[cell.children.length - 1];
+    if (last instanceof Text) {
+      last.data = last.data.replace(/\s+$/, '');
+    }
+    cell.children.filter(child => child instanceof Text && !child.data).forEach(child => DomUtils.removeElement(child));
+
+    if (cell.children.length === 0) {
+      DomUtils.appendChild(cell, createText(' '));
+    }
+  }
+
+  /**
+   * Remove tables without rows
+   */
+  private visitTable(table: Element): ChildNode[] | void {
+    if (DomUtils.getElementsByTagName('tr', table).length === 0) {
+      return [];
+    }
+  }
+
+  /**
+   * Number the top-level inline comments, keyed by their marker reference
+   */
+  private getInlineCommentThreads(comments: ConfluenceComment[]): Map<string, { comment: ConfluenceComment; number: number }> {
+    const threads = new Map<string, { comment: ConfluenceComment; number: number }>();
+    comments
+      .filter(comment => comment.location === 'inline' && !comment.parentId && comment.markerRef)
+      .forEach(comment => {
+        if (!threads.has(comment.markerRef!)) {
+          threads.set(comment.markerRef!, { comment, number: threads.size + 1 });
+        }
+      });
+    return threads;
+  }
+
+  /**
+   * Convert page comments into a "Comments" section with threaded replies.
+   * Returns an empty string if there are no comments.
+   */
+  convertComments(comments: ConfluenceComment[], options?: ConversionOptions): string {
+    if (comments.length === 0) {
+      return '';
+    }
+
+    const threads = this.getInlineCommentThreads(comments);
+    const inlineNumbers = new Map(Array.from(threads.values()).map(thread => [thread.comment.id, thread.number]));
+    const commentIds = new Set(comments.map(comment => comment.id));
+
+    // Replies whose parent is missing are shown as top-level comments
+    const isTopLevel = (comment: ConfluenceComment) => !comment.parentId || !commentIds.has(comment.parentId);
+
+    const renderThread = (comment: ConfluenceComment): string[] => {
+      const lines: string[] = [];
+      const label = inlineNumbers.has(comment.id) ? `💬 ${inlineNumbers.get(comment.id)} · ` : '';
+      const details = [
+        comment.created ? comment.created.substring(0, 10) : '',
+        comment.selection ? `on "${comment.selection.replace(/\s+/g, ' ').trim()}"` : '',
+        comment.resolved ? 'resolved' : '',
+      ].filter(Boolean);
+
+      lines.push(`<a id="comment-${comment.id}"></a>`);
+      lines.push(`**${label}${comment.author || 'Unknown user'}**${details.length > 0 ? ` · ${details.join(' · ')}` : ''}`);
+      lines.push('');
+      // Attachments in a comment body belong to the comment itself
+      lines.push(this.convertToMarkdown(comment.body, { ...options, pageId: comment.id, comments: undefined }).trim());
+
+      for (const reply of comments.filter(other => other.parentId === comment.id)) {
+        lines.push('');
+        // Replies are nested one blockquote level deeper than their parent
+        lines.push(...renderThread(reply).map(line => (line ? `> ${line}` : '>')));
+      }
+      return lines;
+    };
+
+    const renderGroup = (title: string, group: ConfluenceComment[]): string[] => {
+      if (group.length === 0) {
+        return [];
+      }
+      const lines = ['', `### ${title}`];
+      group.forEach(comment => lines.push('', ...renderThread(comment)));
+      return lines;
+    };
+
+    const topLevel = comments.filter(isTopLevel);
+    // Inline threads are listed in the order of their numbers
+    const inlineComments = topLevel
+      .filter(comment => comment.location === 'inline')
+      .sort((a, b) => (inlineNumbers.get(a.id) ?? Infinity) - (inlineNumbers.get(b.id) ?? Infinity));
+    const footerComments = topLevel.filter(comment => comment.location === 'footer');
+
+    return [
+      '## Comments',
+      ...renderGroup('Inline comments', inlineComments),
+      ...renderGroup('Page comments', footerComments),
+    ].join('\n');
   }
 
   /**
@@ -193,28 +760,33 @@ export class MarkdownConverter {
     page: ConfluencePage, 
     outputDir: string, 
     confluenceBaseUrl?: string, 
-    options?: ConversionOptions
+    options?: PageFileOptions
   ): Promise<string> {
-    let markdown = this.convertToMarkdown(page.body.storage.value, {
-      pageId: page.id,
-      preserveHtmlTables: options?.preserveHtmlTables
-    });
+    let markdown = this.convertToMarkdown(page.body.storage.value, { ...options, pageId: page.id });
+
+    // Append the comment threads below the page content
+    if (options?.comments && options.comments.length > 0) {
+      markdown = `${markdown}\n\n${this.convertComments(options.comments, options)}`;
+    }
     
     // Convert relative image URLs to absolute if base URL is provided
     if (confluenceBaseUrl) {
       markdown = this.convertImageUrls(markdown, confluenceBaseUrl);
     }
     
-    // Create a safe filename from the page title
-    const safeTitle = this.sanitizeFilename(page.title);
-    const filename = `${safeTitle}.md`;
+    // Create a safe filename from the page title unless a hierarchical path was given
+    const filename = options?.relativePath || `${this.sanitizeFilename(page.title)}.md`;
     const filePath = path.join(outputDir, filename);
 
-    // Create the output directory if it doesn't exist
-    await fs.mkdir(outputDir, { recursive: true });
+    // Create the output directory (and any hierarchy folders) if it doesn't exist
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
 
     // Add metadata header
-    const metadata = this.createMetadataHeader(page);
+    const metadata = (options?.frontMatter || this.defaultFrontMatter).render(page, {
+      spaceKey: options?.spaceKey,
+      confluenceBaseUrl,
+      exportedAt: options?.timestamp,
+    });
     const fullContent = `${metadata}\n\n${markdown}`;
 
     // Write the file
@@ -224,18 +796,89 @@ export class MarkdownConverter {
   }
 
   /**
-   * Create metadata header for the markdown file
+   * Create flat output paths (`<title>.md`), keyed by page ID
    */
-  private createMetadataHeader(page: ConfluencePage): string {
-    const metadata = [
-      '---',
-      `title: "${page.title}"`,
-      `id: "${page.id}"`,
-      `confluence_url: "${page._links.webui}"`,
-      `created: "${new Date().toISOString()}"`,
-      '---',
-    ];
-    return metadata.join('\n');
+  createFlatFilePaths(pages: ConfluencePage[]): Map<string, string> {
+    const blogPostPaths = createBlogPostPaths(pages);
+    const names = this.createUniqueFilenames(pages.filter(page => page.type !== 'blogpost'), () => '');
+    return new Map(pages.map(page => [
+      page.id,
+      page.type === 'blogpost' ? this.toBlogPostFilePath(blogPostPaths.get(page.id)!) : `${names.get(page.id)}.md`,
+    ]));
+  }
+
+  /**
+   * Output path of a blog post (`blog/YYYY/MM/DD/<slug>.md`) from its path of `createBlogPostPaths`
+   */
+  private toBlogPostFilePath(postPath: string): string {
+    return `${path.join(...postPath.split('/'))}.md`;
+  }
+
+  /**
+   * Create output paths that mirror the Confluence page tree, keyed by page ID.
+   * Pages with children become a folder with an `index.md`, their children are placed inside it.
+   * The folders start at the topmost exported page, e.g. the root page of `export-tree`.
+   */
+  createHierarchicalFilePaths(pages: ConfluencePage[]): Map<string, string> {
+    const exportedIds = new Set(pages.map(page => page.id));
+    const getFolderAncestors = (page: ConfluencePage) => {
+      const ancestors = page.ancestors || [];
+      const top = ancestors.findIndex(ancestor => exportedIds.has(ancestor.id));
+      return top === -1 ? [] : ancestors.slice(top);
+    };
+    const names = this.createUniqueFilenames(
+      pages.filter(page => page.type !== 'blogpost'),
+      page => getFolderAncestors(page).map(ancestor => ancestor.id).pop() || ''
+    );
+
+    // Collect the IDs of all pages that are the direct parent of another page
+    const parentIds = new Set<string>();
+    pages.forEach(page => {
+      if (page.ancestors && page.ancestors.length > 0) {
+        parentIds.add(page.ancestors[page.ancestors.length - 1].id);
+      }
+    });
+
+    const blogPostPaths = createBlogPostPaths(pages);
+    const filePaths = new Map<string, string>();
+    pages.forEach(page => {
+      // Blog posts are not part of the page tree
+      if (page.type === 'blogpost') {
+        filePaths.set(page.id, this.toBlogPostFilePath(blogPostPaths.get(page.id)!));
+        return;
+      }
+
+      const folders = getFolderAncestors(page).map(ancestor =>
+        names.get(ancestor.id) || this.sanitizeFilename(ancestor.title) || ancestor.id
+      );
+      const safeTitle = names.get(page.id)!;
+      const segments = parentIds.has(page.id)
+        ? [...folders, safeTitle, 'index.md']
+        : [...folders, `${safeTitle}.md`];
+      filePaths.set(page.id, path.join(...segments));
+    });
+
+    return filePaths;
+  }
+
+  /**
+   * Sanitized file or folder name of every page, unique among the pages of the same folder (`getFolder`,
+   * regardless of case). Pages whose title sanitizes to an empty or already used name get their ID appended.
+   */
+  private createUniqueFilenames(pages: ConfluencePage[], getFolder: (page: ConfluencePage) => string): Map<string, string> {
+    const names = new Map<string, string>();
+    const usedNames = new Set<string>();
+    for (const page of pages) {
+      const safeTitle = this.sanitizeFilename(page.title);
+      const folder = getFolder(page);
+      let name = safeTitle || page.id;
+      if (usedNames.has(`${folder}/${name.toLowerCase()}`)) {
+        name = `${safeTitle}_${page.id}`;
+      }
+      usedNames.add(`${folder}/${name.toLowerCase()}`);
+      names.set(page.id, name);
+    }
+    return names;
   }
 
   /**
@@ -300,88 +943,39 @@ export class MarkdownConverter {
    * Apply custom rules to a TurndownService instance
    */
   private applyCustomRules(service: TurndownService, fence: string = '```'): void {
-    // Handle Confluence code macros specifically
-    service.addRule('confluenceCode', {
+    // Markdown of macro handlers is written as it is, the text content is only a fallback for table cells
+    service.addRule('macroMarkdown', {
       filter: (node: any) => {
-        // Check for structured macros with case-insensitive matching
-        const nodeName = node.nodeName || node.tagName;
-        if (nodeName && nodeName.toUpperCase() === 'AC:STRUCTURED-MACRO') {
-          const macroName = node.getAttribute('ac:name');
-          return macroName === 'code' || macroName === 'noformat';
-        }
-        return false;
+        return !!node.getAttribute?.('data-macro-markdown');
       },
       replacement: (content: any, node: any) => {
-        const macroName = node.getAttribute('ac:name');
-        
-        console.log(`Debug: Processing ${macroName} macro`);
-        console.log(`Debug: Node HTML:`, node.outerHTML?.substring(0, 200) || 'No outerHTML');
-        
-        // Look for the actual code content in ac:plain-text-body
-        let plainTextBody = node.querySelector('ac\\:plain-text-body');
-        if (!plainTextBody) {
-          // Try without escaping
-          plainTextBody = node.querySelector('ac:plain-text-body');
-        }
-        
-        // Look for language parameter
-        let languageParam = node.querySelector('ac\\:parameter[ac\\:name="language"]');
-        if (!languageParam) {
-          languageParam = node.querySelector('ac:parameter[ac\\:name="language"]');
-        }
-        
-        let codeContent = '';
-        let language = '';
-        
-        if (plainTextBody) {
-          codeContent = plainTextBody.textContent || plainTextBody.innerHTML || '';
-          console.log(`Debug: Found plain-text-body with content: "${codeContent.substring(0, 100)}..."`);
-          // Clean up CDATA sections
-          codeContent = codeContent.replace(/^\s*<!\[CDATA\[/, '').replace(/\]\]>\s*$/, '').trim();
-        } else {
-          console.log(`Debug: No plain-text-body found, searching in node content`);
-          // Try to extract content from the entire node
-          const nodeHTML = node.innerHTML || '';
-          const cdataMatch = nodeHTML.match(/<!\[CDATA\[([\s\S]*?)\]\]>/);
-          if (cdataMatch) {
-            codeContent = cdataMatch[1].trim();
-            console.log(`Debug: Extracted CDATA content: "${codeContent.substring(0, 100)}..."`);
-          } else {
-            console.log(`Debug: No CDATA found, using fallback content`);
-            codeContent = content.replace(/jsontrue/g, '').replace(/^\s+|\s+$/g, '');
-          }
-        }
-        
-        if (languageParam) {
-          language = languageParam.textContent || languageParam.innerHTML || '';
-          console.log(`Debug: Found language: "${language}"`);
-        }
-        
-        if (codeContent && codeContent.length > 0) {
-          const result = `\n${fence}${language}\n${codeContent}\n${fence}\n`;
-          console.log(`Debug: Generated code block: "${result.substring(0, 100)}..."`);
-          return result;
-        } else {
-          console.log(`Debug: No code content found, returning fallback`);
-          return `\n<!-- Confluence ${macroName} macro (content not found) -->\n${content}\n`;
-        }
+        const markdown = node.getAttribute('data-macro-markdown');
+        return node.nodeName === 'DIV' ? `\n\n${markdown}\n\n` : markdown;
+      },
+    });
+
+    // Confluence tasks become GitHub-flavored task list items (`- [ ]` / `- [x]`)
+    service.addRule('taskListItem', {
+      filter: (node: any) => {
+        return node.nodeName === 'LI' && !!node.getAttribute('data-task-status');
+      },
+      replacement: (content: any, node: any, options: any) => {
+        const checkbox = node.getAttribute('data-task-status') === 'complete' ? '[x]' : '[ ]';
+        const itemContent = content
+          .replace(/^\n+/, '') // remove leading newlines
+          .replace(/\n+$/, '\n') // replace trailing newlines with just a single one
+          .replace(/\n/gm, '\n    '); // indent nested content and lists
+        return `${options.bulletListMarker} ${checkbox} ${itemContent}${node.nextSibling && !/\n$/.test(itemContent) ? '\n' : ''}`;
       },
     });
 
-    // Handle general Confluence macros
+    // Handle rendered Confluence macros (structured macros are converted while pre-processing)
     service.addRule('confluenceMacro', {
       filter: (node: any) => {
-        return node.nodeName === 'AC:STRUCTURED-MACRO' || 
-               (node as any).classList?.contains('confluence-macro');
+        return (node as any).classList?.contains('confluence-macro');
       },
       replacement: (content: any, node: any) => {
         const macroName = (node as any).getAttribute('ac:name') || 'unknown';
-        
-        // Skip if already handled by specific rules
-        if (macroName === 'code' || macroName === 'noformat') {
-          return content; // Let the specific rule handle it
-        }
-        
         return `\n<!-- Confluence Macro: ${macroName} -->\n${content}\n`;
       },
     });
@@ -394,19 +988,43 @@ export class MarkdownConverter {
       },
     });
 
-    // Handle table headers
-    service.addRule('tableHeader', {
-      filter: ['th'],
-      replacement: (content: any, node: any) => {
-        return content.trim() + ' |';
-      },
-    });
-
-    // Handle table cells
+    // Handle table headers and cells. A Markdown table row is a single line, so the lines of the
+    // cell content are joined with <br> and pipes are escaped.
     service.addRule('tableCell', {
-      filter: ['td'],
+      filter: ['th', 'td'],
       replacement: (content: any, node: any) => {
-        return content.trim() + ' |';
+        let cellText = content
+          .split('\n')
+          .map((line: string) => line.trim())
+          .filter(Boolean)
+          .join('<br>')
+          .replace(/\|/g, '\\|') || ' ';
+
+        // Check for styling information
+        const style = node.getAttribute('style') || '';
+        const bgColorMatch = style.match(/background-color:\s*([^;]+)/i);
+
+        // Add simplified styling information
+        if (bgColorMatch) {
+          const bgColor = bgColorMatch[1].trim();
+          // Convert RGB colors to more readable format
+          const rgbMatch = bgColor.match(/rgb\((\d+),\s*(\d+),\s*(\d+)\)/);
+          if (rgbMatch) {
+            const [, r, g, b] = rgbMatch;
+            // Determine color meaning based on common Confluence status colors
+            let colorName = this.getColorName(parseInt(r), parseInt(g), parseInt(b));
+            if (colorName) {
+              cellText = `${cellText} {.${colorName}}`;
+            } else {
+              cellText = `${cellText} {.color-${r}-${g}-${b}}`;
+            }
+          } else {
+            // Handle named colors or hex colors
+            cellText = `${cellText} {.bg-${bgColor.replace(/[^a-zA-Z0-9]/g, '-')}}`;
+          }
+        }
+
+        return ` ${cellText} |`;
       },
     });
 
@@ -414,40 +1032,9 @@ export class MarkdownConverter {
     service.addRule('tableRow', {
       filter: ['tr'],
       replacement: (content: any, node: any) => {
-        // Build proper row with spaces around pipes
-        const cells = Array.from(node.children || []).map((child: any) => {
-          const cellContent = child.textContent || child.innerText || '';
-          const trimmed = cellContent.trim();
-          
-          // Check for styling information
-          const style = child.getAttribute('style') || '';
-          const bgColorMatch = style.match(/background-color:\s*([^;]+)/i);
-          let cellText = trimmed || ' ';
-          
-          // Add simplified styling information
-          if (bgColorMatch) {
-            const bgColor = bgColorMatch[1].trim();
-            // Convert RGB colors to more readable format
-            const rgbMatch = bgColor.match(/rgb\((\d+),\s*(\d+),\s*(\d+)\)/);
-            if (rgbMatch) {
-              const [, r, g, b] = rgbMatch;
-              // Determine color meaning based on common Confluence status colors
-              let colorName = this.getColorName(parseInt(r), parseInt(g), parseInt(b));
-              if (colorName) {
-                cellText = `${cellText} {.${colorName}}`;
-              } else {
-                cellText = `${cellText} {.color-${r}-${g}-${b}}`;
-              }
-            } else {
-              // Handle named colors or hex colors
-              cellText = `${cellText} {.bg-${bgColor.replace(/[^a-zA-Z0-9]/g, '-')}}`;
-            }
-          }
-          
-          return cellText;
-        });
-        
-        const row = '| ' + cells.join(' | ') + ' |';
+        // The cells end with their pipe, so the row only needs the leading one
+        const cells = Array.from(node.children || []);
+        const row = '| ' + content.trim();
         
         // Check if this is the FIRST row that contains th elements (true header row)
         const isHeaderRow = Array.from(node.children || []).some((child: any) => 
@@ -482,6 +1069,12 @@ export class MarkdownConverter {
         return node.nodeName === 'PRE' && node.firstChild?.nodeName === 'CODE';
       },
       replacement: (content: any, node: any) => {
+        // Fenced blocks cannot be part of a table cell, which holds a single line
+        if (isInTableCell(node)) {
+          const lines = (node.textContent || '').replace(/\n$/, '').split('\n');
+          const html = lines.map((line: string) => escapeHtmlText(line).replace(/^ +/, spaces => '&nbsp;'.repeat(spaces.length)));
+          return `<code>${html.join('<br>')}</code>`;
+        }
         const codeNode = node.firstChild as any;
         const language = codeNode.className?.replace('language-', '') || '';
         return `\n${fence}${language}\n${content}\n${fence}\n`;
@@ -570,11 +1163,28 @@ export class MarkdownConverter {
     markdown: string, 
     imageDir: string, 
     confluenceBaseUrl: string,
-    authHeader: string,
-    config?: { ignoreSSL?: boolean }
+    auth: AuthStrategy | AttachmentSource,
+    config?: { ignoreSSL?: boolean; retry?: RetryConfig },
+    markdownDir?: string
   ): Promise<string> {
-    const axios = (await import('axios')).default;
-    const https = (await import('https')).default;
+    const result = await this.downloadImages(markdown, imageDir, confluenceBaseUrl, auth, config, { markdownDir });
+    return result.markdown;
+  }
+
+  /**
+   * Download images from Confluence, update markdown links and report the hash of every image file
+   */
+  async downloadImages(
+    markdown: string, 
+    imageDir: string, 
+    confluenceBaseUrl: string,
+    auth: AuthStrategy | AttachmentSource,
+    config?: { ignoreSSL?: boolean; retry?: RetryConfig },
+    options?: ImageDownloadOptions
+  ): Promise<ImageDownloadResult> {
+    const markdownDir = options?.markdownDir;
+    const knownImages = options?.knownImages || {};
+    const images: Record<string, string> = {};
     
     // Create images directory
     await fs.mkdir(imageDir, { recursive: true });
@@ -583,6 +1193,9 @@ export class MarkdownConverter {
     let updatedMarkdown = markdown;
     let downloadCount = 0;
     
+    // Image links are relative to the markdown file, which may sit deeper than the images directory
+    const relativeImageDir = markdownDir ? toRelativeLinkPath(markdownDir, imageDir) : './images';
+    
     console.log(`🔍 Searching for images in markdown...`);
     console.log(`📝 Markdown length: ${markdown.length} characters`);
     
@@ -620,8 +1233,8 @@ export class MarkdownConverter {
     
     console.log(`🖼️  Found ${allImages.length} image references total (markdown + HTML)`);
     
-    // Process each image
-    for (const image of allImages) {
+    // Process the images, downloading up to `concurrency` of them at the same time
+    await mapWithConcurrency(allImages, options?.concurrency || 1, async (image) => {
       const { type, fullMatch, alt, url } = image;
       
       console.log(`\n  📷 Processing ${type} image:`);
@@ -631,18 +1244,18 @@ export class MarkdownConverter {
       // Skip if it's already a local file or external URL starting with http
       if (url.startsWith('./') || url.startsWith('../')) {
         console.log(`  ⏭️  Skipping local relative image: ${url}`);
-        continue;
+        return;
       }
       
       if (url.startsWith('http') && !url.includes(confluenceBaseUrl)) {
         console.log(`  ⏭️  Skipping external image (not from Confluence): ${url}`);
-        continue;
+        return;
       }
       
       // Check if it's a Confluence attachment/download URL
       if (!url.includes('/download/')) {
         console.log(`  ⏭️  Skipping non-attachment image: ${url}`);
-        continue;
+        return;
       }
       
       try {
@@ -651,7 +1264,7 @@ export class MarkdownConverter {
         // Sanitize filename for local storage (replace spaces and special chars)
         const sanitizedFilename = this.sanitizeImageFilename(originalFilename);
         const localPath = path.join(imageDir, sanitizedFilename);
-        const relativePath = './images/' + sanitizedFilename;
+        const relativePath = `${relativeImageDir}/${sanitizedFilename}`;
         
         console.log(`  📥 Preparing to download:`);
         console.log(`    Full URL: ${fullUrl}`);
@@ -660,37 +1273,18 @@ export class MarkdownConverter {
         console.log(`    Local path: ${localPath}`);
         console.log(`    Relative path: ${relativePath}`);
         
-        // Download the image
-        const axiosConfig: any = {
-          responseType: 'arraybuffer',
-          headers: {
-            'Authorization': authHeader
-          },
-          timeout: 30000, // 30 second timeout
-          maxRedirects: 5
-        };
-        
-        // Add SSL ignore if configured
-        if (config?.ignoreSSL) {
-          axiosConfig.httpsAgent = new https.Agent({ rejectUnauthorized: false });
-          console.log(`  🔒 SSL certificate verification disabled for this request`);
+        // Skip the download if the file on disk is still the one from a previous export
+        const knownHash = knownImages[sanitizedFilename];
+        if (knownHash && await this.fileHasHash(localPath, knownHash)) {
+          console.log(`  ⏭️  Already downloaded, skipping: ${sanitizedFilename}`);
+          images[sanitizedFilename] = knownHash;
+        } else {
+          // Download the image (only once if several pages request it at the same time)
+          images[sanitizedFilename] = await this.downloadImageOnce(fullUrl, localPath, auth, config);
+          console.log(`  ✅ Downloaded and saved: ${sanitizedFilename}`);
+          downloadCount++;
         }
         
-        const response = await axios.get(fullUrl, axiosConfig);
-        
-        console.log(`  📊 Response received:`);
-        console.log(`    Status: ${response.status}`);
-        console.log(`    Content-Type: ${response.headers['content-type']}`);
-        console.log(`    Content-Length: ${response.headers['content-length']}`);
-        console.log(`    Data size: ${response.data.byteLength} bytes`);
-        
-        await fs.writeFile(localPath, Buffer.from(response.data));
-        console.log(`  ✅ Downloaded and saved: ${sanitizedFilename}`);
-        
-        // Verify file was written
-        const stats = await fs.stat(localPath);
-        console.log(`  📁 File verification: ${stats.size} bytes on disk`);
-        
         // Update markdown/HTML to use local path with sanitized filename
         if (type === 'markdown') {
           // Replace markdown image
@@ -703,8 +1297,6 @@ export class MarkdownConverter {
           console.log(`  🔄 Updated HTML img src to: ${relativePath}`);
         }
         
-        downloadCount++;
-        
       } catch (error: any) {
         console.error(`  ❌ Failed to download image ${url}:`);
         console.error(`    Error: ${error.message}`);
@@ -717,7 +1309,7 @@ export class MarkdownConverter {
           console.error(`    Error Code: ${error.code}`);
         }
       }
-    }
+    });
     
     console.log(`\n📊 Image download summary:`);
     console.log(`  Total images found: ${allImages.length}`);
@@ -733,7 +1325,88 @@ export class MarkdownConverter {
       console.log(`  Could not list directory contents: ${error}`);
     }
     
-    return updatedMarkdown;
+    return { markdown: updatedMarkdown, images };
+  }
+
+  /**
+   * Download an image and return its hash. Concurrent requests for the same file share one download.
+   */
+  private downloadImageOnce(
+    fullUrl: string,
+    localPath: string,
+    auth: AuthStrategy | AttachmentSource,
+    config?: { ignoreSSL?: boolean; retry?: RetryConfig }
+  ): Promise<string> {
+    let download = this.pendingDownloads.get(localPath);
+    if (!download) {
+      download = this.fetchImage(fullUrl, localPath, auth, config)
+        .then(() => ExportManifest.hashFile(localPath))
+        .finally(() => this.pendingDownloads.delete(localPath));
+      this.pendingDownloads.set(localPath, download);
+    }
+    return download;
+  }
+
+  /**
+   * Download a Confluence image to a local file, or copy it from the attachment source
+   */
+  private async fetchImage(
+    fullUrl: string,
+    localPath: string,
+    auth: AuthStrategy | AttachmentSource,
+    config?: { ignoreSSL?: boolean; retry?: RetryConfig }
+  ): Promise<void> {
+    if ('readAttachment' in auth) {
+      // Attachment URLs contain the ID of the page the file belongs to
+      const match = fullUrl.match(/\/download\/(?:attachments|thumbnails)\/(\d+)\/([^?]+)/);
+      if (!match) {
+        throw new Error(`Not an attachment URL: ${fullUrl}`);
+      }
+      await fs.writeFile(localPath, await auth.readAttachment(match[1], decodeURIComponent(match[2])));
+      return;
+    }
+
+    const axios = (await import('axios')).default;
+    const https = (await import('https')).default;
+    
+    const axiosConfig: any = {
+      responseType: 'arraybuffer',
+      timeout: 30000, // 30 second timeout
+      maxRedirects: 5
+    };
+    
+    // Add SSL ignore if configured
+    if (config?.ignoreSSL) {
+      axiosConfig.httpsAgent = new https.Agent({ rejectUnauthorized: false });
+      console.log(`  🔒 SSL certificate verification disabled for this request`);
+    }
+    
+    // Authenticate and throttle like the Confluence API client
+    const client = applyRetryPolicy(applyAuthStrategy(axios.create(), auth), config?.retry);
+    const response = await client.get(fullUrl, axiosConfig);
+    
+    console.log(`  📊 Response received:`);
+    console.log(`    Status: ${response.status}`);
+    console.log(`    Content-Type: ${response.headers['content-type']}`);
+    console.log(`    Content-Length: ${response.headers['content-length']}`);
+    console.log(`    Data size: ${response.data.byteLength} bytes`);
+    
+    await fs.writeFile(localPath, Buffer.from(response.data));
+    
+    // Verify file was written
+    const stats = await fs.stat(localPath);
+    console.log(`  📁 File verification: ${stats.size} bytes on disk`);
+  }
+
+  /**
+   * Check whether a local file exists and matches the given hash
+   */
+  private async fileHasHash(filePath: string, hash: string): Promise<boolean> {
+    try {
+      return (await ExportManifest.hashFile(filePath)) === hash;
+    } catch {
+      return false;
+    }
   }
 
   /**
@@ -743,14 +1416,12 @@ export class MarkdownConverter {
     markdown: string,
     imagesDir: string,
     confluenceBaseUrl: string,
-    authHeader: string,
+    auth: AuthStrategy | AttachmentSource,
     wikiJsClient: any, // WikiJsClient
     uploadPath: string = '/uploads',
-    config?: { ignoreSSL?: boolean }
+    config?: { ignoreSSL?: boolean; retry?: RetryConfig },
+    concurrency: number = 1
   ): Promise<{ markdown: string; uploadedAssets: any[] }> {
-    const axios = (await import('axios')).default;
-    const https = (await import('https')).default;
-    
     // Create images directory
     await fs.mkdir(imagesDir, { recursive: true });
     console.log(`📁 Created/verified images directory for Wiki.js: ${imagesDir}`);
@@ -796,8 +1467,11 @@ export class MarkdownConverter {
     
     console.log(`🖼️  Found ${allImages.length} image references total (markdown + HTML) for Wiki.js upload`);
     
-    // Process each image
-    for (const image of allImages) {
+    // Images with the same file name are downloaded and uploaded once, parallel downloads would share the local file
+    const uploads = new Map<string, Promise<any>>();
+    
+    // Process the images, up to `concurrency` of them at the same time
+    await mapWithConcurrency(allImages, concurrency, async (image) => {
       const { type, fullMatch, alt, url } = image;
       
       console.log(`\n  📷 Processing ${type} image for Wiki.js:`);
@@ -807,18 +1481,18 @@ export class MarkdownConverter {
       // Skip if it's already a local file or external URL (non-Confluence)
       if (url.startsWith('./') || url.startsWith('../')) {
         console.log(`  ⏭️  Skipping local relative image: ${url}`);
-        continue;
+        return;
       }
       
       if (url.startsWith('http') && !url.includes(confluenceBaseUrl)) {
         console.log(`  ⏭️  Skipping external image (not from Confluence): ${url}`);
-        continue;
+        return;
       }
       
       // Check if it's a Confluence attachment/download URL
       if (!url.includes('/download/')) {
         console.log(`  ⏭️  Skipping non-attachment image: ${url}`);
-        continue;
+        return;
       }
       
       try {
@@ -827,46 +1501,31 @@ export class MarkdownConverter {
         const sanitizedFilename = this.sanitizeImageFilename(originalFilename);
         const localPath = path.join(imagesDir, sanitizedFilename);
         
-        console.log(`  📥 Downloading for Wiki.js: ${originalFilename} -> ${sanitizedFilename}`);
-        console.log(`    Full URL: ${fullUrl}`);
-        console.log(`    Local path: ${localPath}`);
-        
-        // Download the image with SSL ignore and proper error handling
-        const axiosConfig: any = {
-          responseType: 'arraybuffer',
-          headers: {
-            'Authorization': authHeader
-          },
-          timeout: 30000, // 30 second timeout
-          maxRedirects: 5
-        };
-        
-        // Add SSL ignore if configured
-        if (config?.ignoreSSL) {
-          axiosConfig.httpsAgent = new https.Agent({ rejectUnauthorized: false });
-          console.log(`  🔒 SSL certificate verification disabled for this request`);
+        let upload = uploads.get(sanitizedFilename);
+        if (!upload) {
+          upload = (async () => {
+            console.log(`  📥 Downloading for Wiki.js: ${originalFilename} -> ${sanitizedFilename}`);
+            console.log(`    Full URL: ${fullUrl}`);
+            console.log(`    Local path: ${localPath}`);
+            
+            // Download the image with SSL ignore and proper error handling
+            await this.fetchImage(fullUrl, localPath, auth, config);
+            console.log(`  ✅ Downloaded and saved: ${sanitizedFilename}`);
+            
+            // Upload to Wiki.js
+            console.log(`  ⬆️  Uploading to Wiki.js: ${sanitizedFilename}`);
+            const uploadedAsset = await wikiJsClient.uploadAsset(localPath, uploadPath);
+            uploadedAssets.push(uploadedAsset);
+            console.log(`  ✅ Uploaded to Wiki.js successfully`);
+            
+            // Clean up local file
+            await fs.unlink(localPath);
+            console.log(`  🗑️  Cleaned up local file: ${localPath}`);
+            return uploadedAsset;
+          })();
+          uploads.set(sanitizedFilename, upload);
         }
-        
-        const response = await axios.get(fullUrl, axiosConfig);
-        
-        console.log(`  📊 Response received:`);
-        console.log(`    Status: ${response.status}`);
-        console.log(`    Content-Type: ${response.headers['content-type']}`);
-        console.log(`    Content-Length: ${response.headers['content-length']}`);
-        console.log(`    Data size: ${response.data.byteLength} bytes`);
-        
-        await fs.writeFile(localPath, Buffer.from(response.data));
-        console.log(`  ✅ Downloaded and saved: ${sanitizedFilename}`);
-        
-        // Verify file was written
-        const stats = await fs.stat(localPath);
-        console.log(`  📁 File verification: ${stats.size} bytes on disk`);
-        
-        // Upload to Wiki.js
-        console.log(`  ⬆️  Uploading to Wiki.js: ${sanitizedFilename}`);
-        const asset = await wikiJsClient.uploadAsset(localPath, uploadPath);
-        uploadedAssets.push(asset);
-        console.log(`  ✅ Uploaded to Wiki.js successfully`);
+        const asset = await upload;
         
         // Update markdown/HTML to use Wiki.js asset path
         const wikiJsImagePath = `${uploadPath}/${asset.filename || sanitizedFilename}`;
@@ -882,10 +1541,6 @@ export class MarkdownConverter {
           console.log(`  🔄 Updated HTML img src to: ${wikiJsImagePath}`);
         }
         
-        // Clean up local file
-        await fs.unlink(localPath);
-        console.log(`  🗑️  Cleaned up local file: ${localPath}`);
-        
         processedCount++;
         
       } catch (error: any) {
@@ -900,7 +1555,7 @@ export class MarkdownConverter {
           console.error(`    Error Code: ${error.code}`);
         }
       }
-    }
+    });
     
     console.log(`\n📊 Wiki.js image processing summary:`);
     console.log(`  Total images found: ${allImages.length}`);
@@ -919,22 +1574,8 @@ export class MarkdownConverter {
     // Remove Confluence-specific metadata comments
     wikiJsMarkdown = wikiJsMarkdown.replace(/<!-- Confluence [^>]+ -->\n?/g, '');
     
-    // Convert Confluence macro comments to Wiki.js info boxes
-    wikiJsMarkdown = wikiJsMarkdown.replace(
-      /<!-- Confluence Macro: (\w+) -->\n(.*?)\n<!-- End \w+ -->/gs,
-      (match, macroName, content) => {
-        switch (macroName.toLowerCase()) {
-          case 'info':
-            return `> **Info**\n> ${content.replace(/\n/g, '\n> ')}\n`;
-          case 'warning':
-            return `> **Warning**\n> ${content.replace(/\n/g, '\n> ')}\n`;
-          case 'note':
-            return `> **Note**\n> ${content.replace(/\n/g, '\n> ')}\n`;
-          default:
-            return `> **${macroName}**\n> ${content.replace(/\n/g, '\n> ')}\n`;
-        }
-      }
-    );
+    // Wiki.js does not render GitHub alerts, use its callouts instead
+    wikiJsMarkdown = convertGitHubAlertsToWikiJs(wikiJsMarkdown);
     
     // Clean up any remaining Confluence comments
     wikiJsMarkdown = wikiJsMarkdown.replace(/<!-- [^>]+ -->\n?/g, '');
@@ -968,56 +1609,6 @@ export class MarkdownConverter {
     return result;
   }
 
-  /**
-   * Preprocess Confluence table structures
-   */
-  private preprocessConfluenceTables(html: string): string {
-    let processedHtml = html;
-    
-    // Handle Confluence table macros
-    processedHtml = processedHtml.replace(
-      /<ac:structured-macro\s+ac:name="table"[^>]*>([\s\S]*?)<\/ac:structured-macro>/gi,
-      (match, content) => {
-        console.log('Debug: Found table macro:', match.substring(0, 200) + '...');
-        
-        // Extract the rich text body content
-        const richTextMatch = content.match(/<ac:rich-text-body>([\s\S]*?)<\/ac:rich-text-body>/i);
-        if (richTextMatch) {
-          const tableContent = richTextMatch[1];
-          return tableContent; // Return the table HTML directly
-        }
-        
-        return match; // Return original if we can't parse it
-      }
-    );
-    
-    // Handle Confluence table cell classes but preserve styling attributes
-    processedHtml = processedHtml.replace(
-      /<(th|td)([^>]*?)class="[^"]*confluenceT[hd][^"]*"([^>]*?)>/gi,
-      '<$1$2$3>'
-    );
-    
-    // Clean up empty table cells that might cause issues - ensure they have at least a space
-    processedHtml = processedHtml.replace(
-      /<(th|td)([^>]*?)>\s*<\/\1>/gi,
-      '<$1$2> </$1>'
-    );
-    
-    // Ensure table structure is clean - remove empty tables
-    processedHtml = processedHtml.replace(
-      /<table([^>]*?)>\s*<tbody>\s*<\/tbody>\s*<\/table>/gi,
-      ''
-    );
-    
-    // Clean up extra whitespace in table cells while preserving style attributes
-    processedHtml = processedHtml.replace(
-      /<(th|td)([^>]*?)>\s*([^<]*?)\s*<\/\1>/gi,
-      '<$1$2>$3</$1>'
-    );
-    
-    return processedHtml;
-  }
-
   /**
    * Test table conversion with sample HTML
    */
@@ -1205,179 +1796,39 @@ export class MarkdownConverter {
   }
 
   /**
-   * Process Confluence link macros and convert them to proper HTML links
+   * Build the placeholder href for a Confluence page link, or a blog post link with the posting day.
+   * The placeholder is rewritten into a real link by LinkResolver once the export is complete.
    */
-  private processConfluenceLinks(html: string): string {
-    let processedHtml = html;
-    
-    // Handle ac:link macros with ri:space (self-closing space links with CDATA)
-    processedHtml = processedHtml.replace(
-      /<ac:link>\s*<ri:space\s+ri:space-key="([^"]+)"\s*\/>\s*<ac:plain-text-link-body>\s*<!\[CDATA\[(.*?)\]\]>\s*<\/ac:plain-text-link-body>\s*<\/ac:link>/gi,
-      (match, spaceKey, linkText) => {
-        console.log(`Debug: Found space link with CDATA: spaceKey="${spaceKey}", linkText="${linkText}"`);
-        
-        // Use linkText if provided, otherwise use space key
-        const displayText = linkText.trim() || spaceKey;
-        const href = `/spaces/${spaceKey}`;
-        
-        return `<a href="${href}">${displayText}</a>`;
-      }
-    );
-    
-    // Handle ac:link macros with ri:page (self-closing page links with CDATA)
-    processedHtml = processedHtml.replace(
-      /<ac:link>\s*<ri:page\s+(?:ri:space-key="([^"]+)"\s+)?ri:content-title="([^"]+)"\s*\/>\s*<ac:plain-text-link-body>\s*<!\[CDATA\[(.*?)\]\]>\s*<\/ac:plain-text-link-body>\s*<\/ac:link>/gi,
-      (match, spaceKey, contentTitle, linkText) => {
-        console.log(`Debug: Found page link with CDATA: spaceKey="${spaceKey || 'current'}", contentTitle="${contentTitle}", linkText="${linkText}"`);
-        
-        // Use linkText if provided, otherwise use content title
-        const displayText = linkText.trim() || contentTitle;
-        
-        // Build the link URL
-        let href;
-        if (spaceKey) {
-          href = `/spaces/${spaceKey}/pages/${encodeURIComponent(contentTitle)}`;
-        } else {
-          href = `/pages/${encodeURIComponent(contentTitle)}`;
-        }
-        
-        return `<a href="${href}">${displayText}</a>`;
-      }
-    );
-    
-    // Handle ac:link macros with ri:space (self-closing, no CDATA - empty link body)
-    processedHtml = processedHtml.replace(
-      /<ac:link>\s*<ri:space\s+ri:space-key="([^"]+)"\s*\/>\s*<ac:plain-text-link-body>\s*<\/ac:plain-text-link-body>\s*<\/ac:link>/gi,
-      (match, spaceKey) => {
-        console.log(`Debug: Found empty space link: spaceKey="${spaceKey}"`);
-        
-        const href = `/spaces/${spaceKey}`;
-        const displayText = spaceKey; // Use space key as display text
-        
-        return `<a href="${href}">${displayText}</a>`;
-      }
-    );
-    
-    // Handle ac:link macros with ri:page (self-closing, no CDATA - empty link body)
-    processedHtml = processedHtml.replace(
-      /<ac:link>\s*<ri:page\s+(?:ri:space-key="([^"]+)"\s+)?ri:content-title="([^"]+)"\s*\/>\s*<ac:plain-text-link-body>\s*<\/ac:plain-text-link-body>\s*<\/ac:link>/gi,
-      (match, spaceKey, contentTitle) => {
-        console.log(`Debug: Found empty page link: spaceKey="${spaceKey || 'current'}", contentTitle="${contentTitle}"`);
-        
-        // Build the link URL
-        let href;
-        if (spaceKey) {
-          href = `/spaces/${spaceKey}/pages/${encodeURIComponent(contentTitle)}`;
-        } else {
-          href = `/pages/${encodeURIComponent(contentTitle)}`;
-        }
-        
-        const displayText = contentTitle; // Use content title as display text
-        
-        return `<a href="${href}">${displayText}</a>`;
-      }
-    );
-    
-    // Handle legacy format: ac:link macros with ri:space (non-self-closing with CDATA)
-    processedHtml = processedHtml.replace(
-      /<ac:link>\s*<ri:space\s+ri:space-key="([^"]+)"\s*(?:ri:content-title="([^"]*)")?\s*>\s*<ac:plain-text-link-body>\s*<!\[CDATA\[(.*?)\]\]>\s*<\/ac:plain-text-link-body>\s*<\/ri:space>\s*<\/ac:link>/gi,
-      (match, spaceKey, contentTitle, linkText) => {
-        console.log(`Debug: Found legacy space link: spaceKey="${spaceKey}", contentTitle="${contentTitle || ''}", linkText="${linkText}"`);
-        
-        // Use linkText if provided, otherwise use space key or content title
-        const displayText = linkText.trim() || contentTitle || spaceKey;
-        const href = `/spaces/${spaceKey}`;
-        
-        return `<a href="${href}">${displayText}</a>`;
-      }
-    );
-    
-    // Handle legacy format: ac:link macros with ri:page (non-self-closing with CDATA)
-    processedHtml = processedHtml.replace(
-      /<ac:link>\s*<ri:page\s+(?:ri:space-key="([^"]+)"\s+)?ri:content-title="([^"]+)"\s*>\s*<ac:plain-text-link-body>\s*<!\[CDATA\[(.*?)\]\]>\s*<\/ac:plain-text-link-body>\s*<\/ri:page>\s*<\/ac:link>/gi,
-      (match, spaceKey, contentTitle, linkText) => {
-        console.log(`Debug: Found legacy page link: spaceKey="${spaceKey || 'current'}", contentTitle="${contentTitle}", linkText="${linkText}"`);
-        
-        // Use linkText if provided, otherwise use content title
-        const displayText = linkText.trim() || contentTitle;
-        
-        // Build the link URL
-        let href;
-        if (spaceKey) {
-          href = `/spaces/${spaceKey}/pages/${encodeURIComponent(contentTitle)}`;
-        } else {
-          href = `/pages/${encodeURIComponent(contentTitle)}`;
-        }
-        
-        return `<a href="${href}">${displayText}</a>`;
-      }
-    );
-    
-    // Handle ac:link macros with ri:page (self-closing, no link body at all)
-    processedHtml = processedHtml.replace(
-      /<ac:link>\s*<ri:page\s+(?:ri:space-key="([^"]+)"\s+)?ri:content-title="([^"]+)"\s*\/>\s*<\/ac:link>/gi,
-      (match, spaceKey, contentTitle) => {
-        console.log(`Debug: Found minimal page link: spaceKey="${spaceKey || 'current'}", contentTitle="${contentTitle}"`);
-        
-        // Build the link URL
-        let href;
-        if (spaceKey) {
-          href = `/spaces/${spaceKey}/pages/${encodeURIComponent(contentTitle)}`;
-        } else {
-          href = `/pages/${encodeURIComponent(contentTitle)}`;
-        }
-        
-        const displayText = contentTitle; // Use content title as display text
-        
-        return `<a href="${href}">${displayText}</a>`;
-      }
-    );
-    
-    // Handle ac:link macros with ri:space (self-closing, no link body at all)
-    processedHtml = processedHtml.replace(
-      /<ac:link>\s*<ri:space\s+ri:space-key="([^"]+)"\s*\/>\s*<\/ac:link>/gi,
-      (match, spaceKey) => {
-        console.log(`Debug: Found minimal space link: spaceKey="${spaceKey}"`);
-        
-        const href = `/spaces/${spaceKey}`;
-        const displayText = spaceKey; // Use space key as display text
-        
-        return `<a href="${href}">${displayText}</a>`;
-      }
-    );
-    
-    // Handle any remaining ac:link tags that might not match the patterns above
-    processedHtml = processedHtml.replace(
-      /<ac:link[^>]*>([\s\S]*?)<\/ac:link>/gi,
-      (match, content) => {
-        console.log(`Debug: Found unhandled ac:link:`, match.substring(0, 200));
-        
-        // Try to extract any meaningful text from the content (including CDATA)
-        let linkText = '';
-        
-        // Try CDATA first
-        const cdataMatch = content.match(/<ac:plain-text-link-body[^>]*>\s*<!\[CDATA\[(.*?)\]\]>\s*<\/ac:plain-text-link-body>/i);
-        if (cdataMatch) {
-          linkText = cdataMatch[1].trim();
-        } else {
-          // Try regular text content
-          const textMatch = content.match(/<ac:plain-text-link-body[^>]*>(.*?)<\/ac:plain-text-link-body>/i);
-          if (textMatch) {
-            linkText = textMatch[1].trim();
-          }
-        }
-        
-        // If still no link text, try to extract from ri:page or ri:space attributes
-        if (!linkText) {
-          const pageMatch = content.match(/ri:content-title="([^"]+)"/);
-          const spaceMatch = content.match(/ri:space-key="([^"]+)"/);
-          linkText = pageMatch ? pageMatch[1] : (spaceMatch ? spaceMatch[1] : 'Link');
-        }
-        
-        return linkText || '<!-- Unprocessed Confluence Link -->';
-      }
-    );
+  private buildPageLinkHref(spaceKey: string | undefined, contentTitle: string, anchor?: string, postingDay?: string): string {
+    // Encode parentheses as well so the href survives inside markdown link syntax
+    const encodedTitle = encodeURIComponent(contentTitle).replace(/\(/g, '%28').replace(/\)/g, '%29');
+    const pagePath = postingDay ? `blog/${postingDay}/${encodedTitle}` : `pages/${encodedTitle}`;
+    let href = spaceKey ? `/spaces/${spaceKey}/${pagePath}` : `/${pagePath}`;
+    
+    // Keep the anchor of links that point to a section of the page
+    if (anchor) {
+      href += `#${encodeURIComponent(anchor)}`;
+    }
     
-    return processedHtml;
+    return href;
   }
 }
+
+/**
+ * Check whether a DOM node of Turndown is part of a table cell
+ */
+function isInTableCell(node: any): boolean {
+  for (let parent = node.parentNode; parent; parent = parent.parentNode) {
+    if (parent.nodeName === 'TD' || parent.nodeName === 'TH') {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Escape text for use inside an HTML element
+ */
+function escapeHtmlText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -0,0 +1,157 @@
+import { createHash } from 'crypto';
+import { ConfluencePage } from './types';
+
+/**
+ * Order of pages in generated page lists: `position` keeps the order of the export
+ * (the page tree order of Confluence), the others sort by title or date
+ */
+export type PageSortOrder = 'position' | 'title' | 'natural' | 'creation' | 'modified';
+
+const PAGE_SORT_ORDERS: PageSortOrder[] = ['position', 'title', 'natural', 'creation', 'modified'];
+
+/**
+ * Page hierarchy of an export, built from the ancestors of every page. Used to write the
+ * page lists that Confluence renders dynamically (`children`, `pagetree`, `listlabels` macros).
+ */
+export class PageTree {
+  private pages: ConfluencePage[];
+  private children = new Map<string, ConfluencePage[]>();
+  private topLevelPages: ConfluencePage[] = [];
+  private pagesById = new Map<string, ConfluencePage>();
+
+  constructor(pages: ConfluencePage[]) {
+    this.pages = pages;
+    pages.forEach(page => this.pagesById.set(page.id, page));
+
+    // Blog posts are not part of the page tree
+    for (const page of pages.filter(page => page.type !== 'blogpost')) {
+      const parentId = this.getParentId(page);
+      if (parentId && this.pagesById.has(parentId)) {
+        const siblings = this.children.get(parentId) || [];
+        siblings.push(page);
+        this.children.set(parentId, siblings);
+      } else {
+        this.topLevelPages.push(page);
+      }
+    }
+  }
+
+  /**
+   * Page of the export with the given ID
+   */
+  getPage(pageId: string): ConfluencePage | undefined {
+    return this.pagesById.get(pageId);
+  }
+
+  /**
+   * Page of the export with the given title (titles are unique per space regardless of case,
+   * blog posts may share the title of a page)
+   */
+  findPageByTitle(title: string): ConfluencePage | undefined {
+    const normalizedTitle = title.trim().toLowerCase();
+    return this.pages.find(page => page.type !== 'blogpost' && page.title.toLowerCase() === normalizedTitle);
+  }
+
+  /**
+   * ID of the parent page, or undefined for top-level pages
+   */
+  getParentId(page: ConfluencePage): string | undefined {
+    return page.ancestors && page.ancestors.length > 0 ? page.ancestors[page.ancestors.length - 1].id : undefined;
+  }
+
+  /**
+   * Direct children of a page, in the order of the export
+   */
+  getChildren(pageId: string): ConfluencePage[] {
+    return this.children.get(pageId) || [];
+  }
+
+  /**
+   * Pages whose parent is not part of the export, in the order of the export
+   */
+  getTopLevelPages(): ConfluencePage[] {
+    return [...this.topLevelPages];
+  }
+
+  /**
+   * Current state of a part of the page tree that a page list was built from (see `getPageListSource`).
+   * A page list has to be written again when the state of one of its sources changed.
+   */
+  getSourceState(source: string): string {
+    const separator = source.indexOf(':');
+    const [kind, dateSort] = source.slice(0, separator).split('@') as [string, PageSortOrder | undefined];
+    const argument = source.slice(separator + 1);
+    // Lists show titles in order; dates only matter for lists sorted by them
+    const describe = (pages: ConfluencePage[]) => pages.map(page => [page.id, page.title, ...(dateSort ? [getSortDate(page, dateSort)] : [])]);
+
+    let state: unknown;
+    if (kind === 'children') {
+      state = describe(this.getChildren(argument));
+    } else if (kind === 'top-level') {
+      state = describe(this.topLevelPages);
+    } else if (kind === 'labels') {
+      state = Array.from(this.getLabeledPages()).map(([label, pages]) => [label, describe(pages)]);
+    } else if (kind === 'parent') {
+      const page = this.getPage(argument);
+      state = page && this.getParentId(page);
+    } else if (kind === 'title') {
+      state = this.findPageByTitle(argument)?.id;
+    }
+    return createHash('sha256').update(JSON.stringify(state ?? null)).digest('hex');
+  }
+
+  /**
+   * All labels of the exported pages and blog posts, with the pages that carry them
+   */
+  getLabeledPages(): Map<string, ConfluencePage[]> {
+    const labeledPages = new Map<string, ConfluencePage[]>();
+    for (const page of this.pages) {
+      for (const label of page.labels || []) {
+        labeledPages.set(label, [...(labeledPages.get(label) || []), page]);
+      }
+    }
+    return labeledPages;
+  }
+}
+
+/**
+ * Parse the `sort` parameter of a page list macro, unknown values keep the page tree order
+ */
+export function parsePageSortOrder(value: string | undefined): PageSortOrder {
+  const sort = (value || '').trim().toLowerCase();
+  if (sort === 'bitwise') {
+    return 'title';
+  }
+  return PAGE_SORT_ORDERS.includes(sort as PageSortOrder) ? sort as PageSortOrder : 'position';
+}
+
+/**
+ * Name of a part of the page tree that a page list is built from: the children of a page
+ * (`children:<pageId>`), the top-level pages (`top-level:`), the labels (`labels:`), the parent of a
+ * page (`parent:<pageId>`) or the page found by a title (`title:<title>`). Lists sorted by date
+ * also depend on the dates of their pages (`children@modified:<pageId>`).
+ */
+export function getPageListSource(kind: 'children' | 'top-level' | 'labels' | 'parent' | 'title', argument: string = '', sort?: PageSortOrder): string {
+  const dateSort = sort === 'creation' || sort === 'modified' ? `@${sort}` : '';
+  return `${kind}${dateSort}:${argument}`;
+}
+
+/**
+ * Sort pages for a page list, optionally in reverse order
+ */
+export function sortPages(pages: ConfluencePage[], sort: PageSortOrder, reverse: boolean): ConfluencePage[] {
+  const sorted = [...pages];
+  if (sort === 'title') {
+    sorted.sort((a, b) => a.title.localeCompare(b.title));
+  } else if (sort === 'natural') {
+    // "Page 2" before "Page 10"
+    sorted.sort((a, b) => a.title.localeCompare(b.title, undefined, { numeric: true }));
+  } else if (sort === 'creation' || sort === 'modified') {
+    sorted.sort((a, b) => getSortDate(a, sort).localeCompare(getSortDate(b, sort)));
+  }
+  return reverse ? sorted.reverse() : sorted;
+}
+
+function getSortDate(page: ConfluencePage, sort: PageSortOrder): string {
+  return (sort === 'creation' ? page.history?.createdDate : page.version?.when) || '';
+}
@@ -0,0 +1,245 @@
+import * as fs from 'fs/promises';
+import { ConfluencePage, ConfluencePageRestrictions, ConfluenceRestrictionSubjects, ConfluenceRestrictionUser, WikiJsPageRule } from './types';
+import { WikiJsClient } from './wikijs-client';
+
+/**
+ * What happens to pages with view restrictions when exporting to Wiki.js:
+ * - `skip`: the page is not exported
+ * - `unpublish`: the page is exported, but not published
+ * - `rules`: the page is published and Wiki.js page rules limit access to the mapped groups
+ * - `publish`: the page is published for everyone (only reported in the summary)
+ */
+export type RestrictedPageMode = 'skip' | 'unpublish' | 'rules' | 'publish';
+
+const RESTRICTED_PAGE_MODES: RestrictedPageMode[] = ['skip', 'unpublish', 'rules', 'publish'];
+
+const READ_ROLES = ['read:pages', 'read:assets', 'read:comments', 'read:source', 'read:history'];
+const WRITE_ROLES = ['write:pages'];
+
+/**
+ * Page rules created by the exporter are recognized by their ID, so later exports can replace them
+ */
+const RULE_ID_PREFIX = 'confluence-';
+
+export interface RestrictionMappingRules {
+  /**
+   * Confluence group name to Wiki.js group name
+   */
+  groups: Record<string, string>;
+  /**
+   * Confluence user (account ID, username, user key or display name) to Wiki.js group name
+   */
+  users: Record<string, string>;
+  /**
+   * Wiki.js groups that lose read access to restricted pages, e.g. "Guests". There is no default:
+   * every group that can read pages would otherwise still see restricted content.
+   */
+  denyGroups: string[];
+}
+
+/**
+ * Parse a `--restricted-pages` option value
+ */
+export function parseRestrictedPageMode(value: string | undefined): RestrictedPageMode {
+  const mode = (value || 'skip') as RestrictedPageMode;
+  if (!RESTRICTED_PAGE_MODES.includes(mode)) {
+    throw new Error(`Invalid restricted page mode "${value}". Use one of: ${RESTRICTED_PAGE_MODES.join(', ')}`);
+  }
+  return mode;
+}
+
+/**
+ * Whether an operation is limited to specific users or groups
+ */
+export function isRestricted(subjects: ConfluenceRestrictionSubjects): boolean {
+  return subjects.users.length > 0 || subjects.groups.length > 0;
+}
+
+/**
+ * Get the restrictions that apply to a page. View restrictions are inherited by all
+ * descendants, so if the page has none of its own the nearest restricted ancestor is used.
+ */
+export async function resolveEffectiveRestrictions(
+  page: ConfluencePage,
+  getRestrictions: (pageId: string) => Promise<ConfluencePageRestrictions>
+): Promise<ConfluencePageRestrictions> {
+  const own = await getRestrictions(page.id);
+  if (isRestricted(own.read)) {
+    return own;
+  }
+
+  for (const ancestor of [...(page.ancestors || [])].reverse()) {
+    const inherited = await getRestrictions(ancestor.id);
+    if (isRestricted(inherited.read)) {
+      return { ...own, read: inherited.read, inheritedFrom: ancestor };
+    }
+  }
+  return own;
+}
+
+/**
+ * Short description of the users and groups of a restriction for log output
+ */
+export function describeSubjects(subjects: ConfluenceRestrictionSubjects): string {
+  const parts: string[] = [];
+  if (subjects.groups.length > 0) {
+    parts.push(`groups ${subjects.groups.join(', ')}`);
+  }
+  if (subjects.users.length > 0) {
+    parts.push(`users ${subjects.users.map(user => getUserLabel(user)).join(', ')}`);
+  }
+  return parts.join('; ');
+}
+
+/**
+ * Maps Confluence users and groups of page restrictions to Wiki.js groups.
+ *
+ * The mapping file is a JSON object:
+ * `{ "groups": { "hr": "HR" }, "users": { "jane.doe": "HR" }, "denyGroups": ["Guests"] }`.
+ */
+export class RestrictionMapping {
+  readonly rules: RestrictionMappingRules;
+
+  constructor(rules: Partial<RestrictionMappingRules> = {}) {
+    this.rules = {
+      groups: rules.groups || {},
+      users: rules.users || {},
+      denyGroups: rules.denyGroups || [],
+    };
+  }
+
+  /**
+   * Load a mapping file, or return an empty mapping if no file is given
+   */
+  static async load(filePath?: string): Promise<RestrictionMapping> {
+    if (!filePath) {
+      return new RestrictionMapping();
+    }
+
+    let rules: any;
+    try {
+      rules = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Failed to read restriction mapping file ${filePath}: ${error}`);
+    }
+
+    if (!rules || typeof rules !== 'object' || Array.isArray(rules)) {
+      throw new Error(`Invalid restriction mapping file ${filePath}: expected an object with "groups", "users" and "denyGroups"`);
+    }
+    for (const key of ['groups', 'users']) {
+      const entries = rules[key] || {};
+      if (typeof entries !== 'object' || Array.isArray(entries) || Object.values(entries).some(group => typeof group !== 'string')) {
+        throw new Error(`Invalid "${key}" in restriction mapping file ${filePath}: expected an object of "name": "Wiki.js group" entries`);
+      }
+    }
+    if (rules.denyGroups !== undefined && (!Array.isArray(rules.denyGroups) || rules.denyGroups.some((group: unknown) => typeof group !== 'string'))) {
+      throw new Error(`Invalid "denyGroups" in restriction mapping file ${filePath}: expected a list of Wiki.js group names`);
+    }
+
+    const mapping = new RestrictionMapping(rules);
+    console.log(`🔒 Loaded ${Object.keys(mapping.rules.groups).length} group and ${Object.keys(mapping.rules.users).length} user mappings from ${filePath}`);
+    return mapping;
+  }
+
+  /**
+   * Page rules only hide restricted pages from the deny groups, so `rules` mode needs at least one
+   */
+  assertDenyGroups(): void {
+    if (this.rules.denyGroups.length === 0) {
+      throw new Error('--restricted-pages rules requires "denyGroups" in the restriction mapping file: the Wiki.js groups that must not read restricted pages (e.g. ["Guests", "Users"])');
+    }
+  }
+
+  /**
+   * Wiki.js groups for the users and groups of a restriction, and the users and groups without a mapping
+   */
+  mapSubjects(subjects: ConfluenceRestrictionSubjects): { groups: string[]; unmapped: string[] } {
+    const groups = new Set<string>();
+    const unmapped: string[] = [];
+
+    for (const group of subjects.groups) {
+      const wikiJsGroup = lookup(this.rules.groups, group);
+      if (wikiJsGroup) {
+        groups.add(wikiJsGroup);
+      } else {
+        unmapped.push(`group ${group}`);
+      }
+    }
+    for (const user of subjects.users) {
+      const keys = [user.accountId, user.username, user.userKey, user.displayName].filter((key): key is string => !!key);
+      const wikiJsGroup = keys.map(key => lookup(this.rules.users, key)).find(Boolean);
+      if (wikiJsGroup) {
+        groups.add(wikiJsGroup);
+      } else {
+        unmapped.push(`user ${getUserLabel(user)}`);
+      }
+    }
+
+    return { groups: Array.from(groups), unmapped };
+  }
+
+  /**
+   * Page rules for one Wiki.js page, grouped by Wiki.js group name. Mapped viewers get read access,
+   * mapped editors get write access, and the deny groups lose read access to view-restricted pages.
+   */
+  createPageRules(pageId: string, pagePath: string, locale: string, restrictions: ConfluencePageRestrictions): Map<string, WikiJsPageRule[]> {
+    const rulesByGroup = new Map<string, WikiJsPageRule[]>();
+    const path = pagePath.replace(/^\//, '');
+    const addRule = (group: string, rule: Pick<WikiJsPageRule, 'deny' | 'roles'> & { suffix: string }) => {
+      const rules = rulesByGroup.get(group) || [];
+      rules.push({ id: `${RULE_ID_PREFIX}${pageId}-${rule.suffix}`, deny: rule.deny, match: 'EXACT', roles: rule.roles, path, locales: [locale] });
+      rulesByGroup.set(group, rules);
+    };
+
+    if (isRestricted(restrictions.read)) {
+      this.mapSubjects(restrictions.read).groups.forEach(group => addRule(group, { deny: false, roles: READ_ROLES, suffix: 'read' }));
+      this.rules.denyGroups.forEach(group => addRule(group, { deny: true, roles: READ_ROLES, suffix: 'deny-read' }));
+    }
+    if (isRestricted(restrictions.update)) {
+      this.mapSubjects(restrictions.update).groups.forEach(group => addRule(group, { deny: false, roles: WRITE_ROLES, suffix: 'write' }));
+    }
+
+    return rulesByGroup;
+  }
+
+  /**
+   * Replace the exporter's page rules for the given pages in every mapped Wiki.js group.
+   * Rules for these paths from earlier exports are removed, so pages that are no longer restricted lose them.
+   */
+  async applyPageRules(client: WikiJsClient, pagePaths: string[], rulesByGroup: Map<string, WikiJsPageRule[]>): Promise<void> {
+    const paths = new Set(pagePaths.map(pagePath => pagePath.replace(/^\//, '')));
+    const groupNames = new Set([
+      ...Object.values(this.rules.groups),
+      ...Object.values(this.rules.users),
+      ...this.rules.denyGroups,
+      ...rulesByGroup.keys(),
+    ]);
+
+    const groups = await client.getGroups();
+    for (const groupName of groupNames) {
+      const listed = groups.find(group => group.name === groupName);
+      if (!listed) {
+        console.log(`  ⚠️  Wiki.js group "${groupName}" does not exist, its page rules are not created`);
+        continue;
+      }
+
+      const group = await client.getGroup(listed.id);
+      const keptRules = (group.pageRules || []).filter(rule => !rule.id.startsWith(RULE_ID_PREFIX) || !paths.has(rule.path));
+      const newRules = rulesByGroup.get(groupName) || [];
+      if (keptRules.length === (group.pageRules || []).length && newRules.length === 0) {
+        continue;
+      }
+
+      await client.updateGroup({ ...group, pageRules: [...keptRules, ...newRules] });
+      console.log(`  🔒 Group "${groupName}": ${newRules.length} page rules`);
+    }
+  }
+}
+
+function lookup(entries: Record<string, string>, key: string): string | undefined {
+  return Object.prototype.hasOwnProperty.call(entries, key) ? entries[key] : undefined;
+}
+
+function getUserLabel(user: ConfluenceRestrictionUser): string {
+  return user.displayName || user.username || user.accountId || user.userKey || 'unknown';
+}
@@ -0,0 +1,165 @@
+import { DomUtils, parseDocument } from 'htmlparser2';
+import { ChildNode, Comment, Document, Element, ParentNode, Text } from 'domhandler';
+
+/**
+ * Namespaces of the Confluence storage format: `ac:` for macros, links, images and other
+ * Confluence elements, `ri:` for resource identifiers (pages, attachments, spaces, users, URLs)
+ */
+export const STORAGE_NAMESPACES: Record<string, string> = {
+  ac: 'http://atlassian.com/content',
+  ri: 'http://atlassian.com/resource/identifier',
+};
+
+/**
+ * Handles one element type of the storage format. Returns the nodes that replace the element,
+ * or nothing to keep it. The children of the element have already been visited.
+ */
+export type StorageNodeVisitor<Context> = (element: Element, context: Context) => ChildNode[] | void;
+
+/**
+ * Parse storage format XHTML into a tree. Element and attribute names keep their namespace
+ * prefix (`ac:structured-macro`, `ri:content-title`) and are lower-cased, entities are decoded
+ * and CDATA sections (the plain text bodies of macros and links) are kept as CDATA nodes.
+ */
+export function parseStorageFormat(storage: string): Document {
+  return parseDocument(storage, {
+    recognizeCDATA: true,
+    recognizeSelfClosing: true,
+    lowerCaseTags: true,
+    lowerCaseAttributeNames: true,
+  });
+}
+
+/**
+ * Walk the tree once, children before their parent, and replace every element that has a
+ * visitor for its qualified name (e.g. `ac:link`, `td`) with the nodes the visitor returns.
+ * Visiting children first means nested macros are converted before the macro around them.
+ */
+export function visitStorageFormat<Context>(
+  parent: ParentNode,
+  visitors: Map<string, StorageNodeVisitor<Context>>,
+  context: Context
+): void {
+  for (const node of [...parent.children]) {
+    if (!(node instanceof Element)) {
+      continue;
+    }
+    visitStorageFormat(node, visitors, context);
+
+    const visitor = visitors.get(node.name);
+    const replacement = visitor ? visitor(node, context) : undefined;
+    if (replacement) {
+      replaceNode(node, replacement);
+    }
+  }
+}
+
+/**
+ * Serialize the tree back to HTML for Turndown. Characters are written as they are
+ * instead of as numeric entities, only markup characters are escaped.
+ */
+export function renderStorageFormat(node: ParentNode): string {
+  return DomUtils.getInnerHTML(node, { encodeEntities: 'utf8' });
+}
+
+/**
+ * Namespace prefix of an element (`ac`, `ri`) or undefined for plain XHTML elements
+ */
+export function getNamespace(element: Element): string | undefined {
+  const separator = element.name.indexOf(':');
+  const prefix = separator > 0 ? element.name.substring(0, separator) : undefined;
+  return prefix && STORAGE_NAMESPACES[prefix] ? prefix : undefined;
+}
+
+/**
+ * Direct child element with the given qualified name. Only direct children are searched,
+ * so the bodies and parameters of nested macros are never picked up by mistake.
+ */
+export function getChildElement(element: ParentNode, name: string): Element | undefined {
+  return element.children.find((child): child is Element => child instanceof Element && child.name === name);
+}
+
+/**
+ * Direct child elements, optionally only those with the given qualified name
+ */
+export function getChildElements(element: ParentNode, name?: string): Element[] {
+  return element.children.filter((child): child is Element => child instanceof Element && (!name || child.name === name));
+}
+
+/**
+ * Whether one of the ancestors of a node is an element with one of the given qualified names
+ */
+export function hasAncestor(node: ChildNode, names: string[]): boolean {
+  for (let parent = node.parent; parent; parent = parent.parent) {
+    if (parent instanceof Element && names.includes(parent.name)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Name of an `ac:structured-macro` (or legacy `ac:macro`) element, lower-cased
+ */
+export function getMacroName(macro: Element): string {
+  return (macro.attribs['ac:name'] || '').toLowerCase();
+}
+
+/**
+ * Parameters of a macro, keyed by name. The default (unnamed) parameter has an empty name.
+ */
+export function getMacroParameters(macro: Element): Record<string, string> {
+  const parameters: Record<string, string> = {};
+  for (const parameter of getChildElements(macro, 'ac:parameter')) {
+    parameters[parameter.attribs['ac:name'] || ''] = getTextContent(parameter).trim();
+  }
+  return parameters;
+}
+
+/**
+ * Text of a node and its descendants, including CDATA sections
+ */
+export function getTextContent(node: ChildNode | ChildNode[]): string {
+  return DomUtils.textContent(node);
+}
+
+/**
+ * Create an element with the given attributes and children
+ */
+export function createElement(name: string, attribs: Record<string, string> = {}, children: ChildNode[] = []): Element {
+  const element = new Element(name, attribs);
+  children.forEach(child => DomUtils.appendChild(element, child));
+  return element;
+}
+
+/**
+ * Create a text node, markup characters are escaped when the tree is rendered
+ */
+export function createText(text: string): Text {
+  return new Text(text);
+}
+
+/**
+ * Create an HTML comment
+ */
+export function createComment(text: string): Comment {
+  return new Comment(` ${text} `);
+}
+
+/**
+ * Replace a node with a list of nodes (an empty list removes it)
+ */
+function replaceNode(node: ChildNode, replacement: ChildNode[]): void {
+  let previous: ChildNode = node;
+  for (const next of replacement) {
+    if (next === node) {
+      previous = node;
+      continue;
+    }
+    DomUtils.append(previous, next);
+    previous = next;
+  }
+  if (!replacement.includes(node)) {
+    DomUtils.removeElement(node);
+  }
+}
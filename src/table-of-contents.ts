@@ -0,0 +1,162 @@
+/**
+ * Rules for the IDs of headings:
+ * - `github`: IDs GitHub (and most Markdown renderers based on github-slugger) give headings
+ * - `wikijs`: IDs Wiki.js 2 gives headings (lodash `kebabCase`, `h-` before a leading digit)
+ */
+export type HeadingAnchorStyle = 'github' | 'wikijs';
+
+/**
+ * A heading of converted Markdown
+ */
+export interface MarkdownHeading {
+  level: number;
+  /**
+   * Heading text without Markdown formatting
+   */
+  text: string;
+  /**
+   * ID of the heading, unique within the page
+   */
+  anchor: string;
+}
+
+/**
+ * Collect the ATX headings of Markdown (also inside blockquotes and callouts, not inside
+ * code blocks) with the IDs they get when the page is rendered
+ */
+export function collectHeadings(markdown: string, anchorStyle: HeadingAnchorStyle = 'github'): MarkdownHeading[] {
+  const headings: MarkdownHeading[] = [];
+  const usedAnchors = new Set<string>();
+  let fence: string | undefined;
+
+  for (const line of markdown.split('\n')) {
+    const content = line.replace(/^(?:> ?)*/, '');
+    const fenceMatch = content.match(/^\s{0,3}(`{3,}|~{3,})/);
+    if (fenceMatch) {
+      if (!fence) {
+        fence = fenceMatch[1];
+      } else if (fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        fence = undefined;
+      }
+      continue;
+    }
+
+    const headingMatch = !fence && content.match(/^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/);
+    if (headingMatch) {
+      const text = getPlainText(headingMatch[2]);
+      const slug = anchorStyle === 'wikijs' ? createWikiJsSlug(text) : createGitHubSlug(text);
+      const anchor = makeUnique(slug, usedAnchors);
+      headings.push({ level: headingMatch[1].length, text, anchor });
+    }
+  }
+  return headings;
+}
+
+/**
+ * Render the table of contents of a `toc` macro from the headings of the page. Supports the
+ * `minLevel`, `maxLevel`, `include` and `exclude` parameters, and `type=flat` for a single line.
+ */
+export function renderTableOfContents(headings: MarkdownHeading[], parameters: Record<string, string>): string {
+  const minLevel = parseInt(parameters.minLevel, 10) || 1;
+  const maxLevel = parseInt(parameters.maxLevel, 10) || 6;
+  const include = createHeadingFilter(parameters.include);
+  const exclude = createHeadingFilter(parameters.exclude);
+
+  const entries = headings.filter(heading =>
+    heading.level >= minLevel &&
+    heading.level <= maxLevel &&
+    (!include || include.test(heading.text)) &&
+    (!exclude || !exclude.test(heading.text))
+  );
+  const links = entries.map(heading => `[${heading.text.replace(/([\[\]])/g, '\\$1')}](#${heading.anchor})`);
+
+  if ((parameters.type || '').toLowerCase() === 'flat') {
+    // Custom separators are used as they are, the named ones all become pipes
+    const separator = parameters.separator && !['brackets', 'braces', 'parens', 'pipe'].includes(parameters.separator) ? parameters.separator : ' | ';
+    return links.join(separator);
+  }
+
+  // Every heading is nested below the closest preceding heading of a higher level
+  const openLevels: number[] = [];
+  return entries
+    .map((heading, i) => {
+      while (openLevels.length > 0 && openLevels[openLevels.length - 1] >= heading.level) {
+        openLevels.pop();
+      }
+      const depth = openLevels.length;
+      openLevels.push(heading.level);
+      return `${'    '.repeat(depth)}-   ${links[i]}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Confluence matches the `include` and `exclude` expressions against the whole heading text
+ */
+function createHeadingFilter(pattern: string | undefined): RegExp | undefined {
+  if (!pattern) {
+    return undefined;
+  }
+  try {
+    return new RegExp(`^(?:${pattern})$`, 'i');
+  } catch {
+    console.warn(`⚠️  Ignoring invalid heading filter of toc macro: ${pattern}`);
+    return undefined;
+  }
+}
+
+/**
+ * Text of a heading as it is rendered: images, HTML tags, formatting and escapes removed
+ */
+function getPlainText(markdown: string): string {
+  // Escaped characters are set aside, so they are not mistaken for formatting
+  const escaped: string[] = [];
+  return markdown
+    .replace(/\\([!-\/:-@\[-`{-~])/g, (match, character: string) => `\u0000${escaped.push(character) - 1}\u0000`)
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/(\*\*|__|~~|[*_`])(.+?)\1/g, '$2')
+    .replace(/\u0000(\d+)\u0000/g, (match, index: string) => escaped[Number(index)])
+    .trim();
+}
+
+/**
+ * github-slugger: lower-case, punctuation removed, every space becomes a hyphen
+ */
+function createGitHubSlug(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\p{Pc} -]/gu, '')
+    .replace(/ /g, '-');
+}
+
+/**
+ * lodash `kebabCase` as used by Wiki.js: accents removed, words split at camel case and
+ * between letters and digits, joined with hyphens. IDs cannot start with a digit.
+ */
+function createWikiJsSlug(text: string): string {
+  const words = text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/['\u2019]/g, '')
+    .replace(/(\p{Ll})(\p{Lu})/gu, '$1 $2')
+    .replace(/(\p{Lu})(\p{Lu}\p{Ll})/gu, '$1 $2')
+    .replace(/(\p{L})(\p{N})/gu, '$1 $2')
+    .replace(/(\p{N})(?!(?:st|nd|rd|th)\b)(\p{L})/giu, '$1 $2')
+    .match(/[\p{L}\p{N}]+/gu) || [];
+  const slug = words.join('-').toLowerCase();
+  return /^\d/.test(slug) ? `h-${slug}` : slug;
+}
+
+/**
+ * Repeated headings get a numbered suffix: `intro`, `intro-1`, `intro-2`
+ */
+function makeUnique(slug: string, usedAnchors: Set<string>): string {
+  let anchor = slug;
+  for (let i = 1; usedAnchors.has(anchor); i++) {
+    anchor = `${slug}-${i}`;
+  }
+  usedAnchors.add(anchor);
+  return anchor;
+}
@@ -1,10 +1,30 @@
 export interface ConfluenceConfig {
   baseUrl: string;
-  username: string;
-  password: string;
+  authType: 'basic' | 'pat' | 'oauth';
+  username?: string;
+  password?: string;
+  personalAccessToken?: string;
+  oauth?: ConfluenceOAuthConfig;
   outputDir: string;
   spaceKey?: string;
   ignoreSSL?: boolean;
+  apiVersion?: 'auto' | 'v1' | 'v2';
+  retry?: RetryConfig;
+}
+
+export interface RetryConfig {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  requestsPerSecond: number; // 0 = unlimited
+}
+
+export interface ConfluenceOAuthConfig {
+  accessToken: string;
+  refreshToken?: string;
+  clientId?: string;
+  clientSecret?: string;
+  tokenUrl: string;
 }
 
 export interface ConfluencePage {
@@ -19,6 +39,75 @@ export interface ConfluencePage {
     webui: string;
   };
   ancestors?: ConfluencePageAncestor[];
+  version?: ConfluencePageVersion;
+  space?: ConfluencePageSpace;
+  type?: ConfluenceContentType;
+  history?: ConfluencePageHistory;
+  labels?: string[];
+}
+
+export type ConfluenceContentType = 'page' | 'blogpost';
+
+export interface ConfluencePageHistory {
+  createdDate?: string;
+  createdBy?: {
+    displayName?: string;
+  };
+}
+
+export interface ConfluencePageSpace {
+  key: string;
+  name?: string;
+}
+
+export interface ConfluencePageVersion {
+  number: number;
+  when?: string;
+  by?: {
+    displayName?: string;
+    email?: string;
+    username?: string;
+  };
+  message?: string;
+}
+
+export interface ConfluenceComment {
+  id: string;
+  body: string;
+  author?: string;
+  created?: string;
+  location: 'footer' | 'inline';
+  parentId?: string;
+  markerRef?: string;
+  selection?: string;
+  resolved?: boolean;
+}
+
+export interface ConfluenceRestrictionUser {
+  accountId?: string;
+  username?: string;
+  userKey?: string;
+  displayName?: string;
+}
+
+export interface ConfluenceRestrictionSubjects {
+  users: ConfluenceRestrictionUser[];
+  groups: string[];
+}
+
+export interface ConfluencePageRestrictions {
+  /**
+   * Users and groups that may view the page (empty if everyone with space access may)
+   */
+  read: ConfluenceRestrictionSubjects;
+  /**
+   * Users and groups that may edit the page (empty if everyone with space access may)
+   */
+  update: ConfluenceRestrictionSubjects;
+  /**
+   * Ancestor page the view restriction is inherited from
+   */
+  inheritedFrom?: ConfluencePageAncestor;
 }
 
 export interface ConfluencePageAncestor {
@@ -44,6 +133,7 @@ export interface WikiJsConfig {
   apiKey: string;
   uploadPath?: string;
   namespace?: string;
+  retry?: RetryConfig;
 }
 
 export interface WikiJsAsset {
@@ -81,6 +171,23 @@ export interface WikiJsPage {
   creatorId?: number;
 }
 
+export interface WikiJsPageRule {
+  id: string;
+  deny: boolean;
+  match: 'START' | 'EXACT' | 'END' | 'REGEX' | 'TAG';
+  roles: string[];
+  path: string;
+  locales: string[];
+}
+
+export interface WikiJsGroup {
+  id: number;
+  name: string;
+  redirectOnLogin?: string;
+  permissions?: string[];
+  pageRules?: WikiJsPageRule[];
+}
+
 export interface NavigationItem {
   label: string;
   path: string;
@@ -1,7 +1,8 @@
 import axios, { AxiosInstance } from 'axios';
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { WikiJsConfig, WikiJsAsset, WikiJsPage, ConfluencePage, NavigationItem, ConfluencePageAncestor } from './types';
+import { WikiJsConfig, WikiJsAsset, WikiJsPage, WikiJsGroup, ConfluencePage, NavigationItem, ConfluencePageAncestor } from './types';
+import { applyRetryPolicy } from './http-retry';
 
 export class WikiJsClient {
   private client: AxiosInstance;
@@ -9,13 +10,13 @@ export class WikiJsClient {
 
   constructor(config: WikiJsConfig) {
     this.config = config;
-    this.client = axios.create({
+    this.client = applyRetryPolicy(axios.create({
       baseURL: `${config.baseUrl}/graphql`,
       headers: {
         'Authorization': `Bearer ${config.apiKey}`,
         'Content-Type': 'application/json',
       },
-    });
+    }), config.retry);
   }
 
   /**
@@ -59,12 +60,12 @@ export class WikiJsClient {
       formData.append('mediaUpload', blob, fileName);
 
       // Use the Wiki.js upload endpoint
-      const uploadClient = axios.create({
+      const uploadClient = applyRetryPolicy(axios.create({
         baseURL: `${this.config.baseUrl}`,
         headers: {
           'Authorization': `Bearer ${this.config.apiKey}`,
         },
-      });
+      }), this.config.retry);
 
       const response = await uploadClient.post('/u', formData, {
         headers: {
@@ -318,6 +319,111 @@ export class WikiJsClient {
     }
   }
 
+  /**
+   * List the user groups of Wiki.js (without permissions and page rules)
+   */
+  async getGroups(): Promise<WikiJsGroup[]> {
+    const query = `
+      query {
+        groups {
+          list {
+            id
+            name
+          }
+        }
+      }
+    `;
+
+    try {
+      const response = await this.client.post('', { query });
+      if (response.data.errors) {
+        throw new Error(`Wiki.js API error: ${JSON.stringify(response.data.errors)}`);
+      }
+      return response.data.data.groups.list || [];
+    } catch (error) {
+      throw new Error(`Failed to list Wiki.js groups: ${error}`);
+    }
+  }
+
+  /**
+   * Get a user group with its permissions and page rules
+   */
+  async getGroup(groupId: number): Promise<WikiJsGroup> {
+    const query = `
+      query ($id: Int!) {
+        groups {
+          single(id: $id) {
+            id
+            name
+            redirectOnLogin
+            permissions
+            pageRules {
+              id
+              deny
+              match
+              roles
+              path
+              locales
+            }
+          }
+        }
+      }
+    `;
+
+    try {
+      const response = await this.client.post('', { query, variables: { id: groupId } });
+      if (response.data.errors) {
+        throw new Error(`Wiki.js API error: ${JSON.stringify(response.data.errors)}`);
+      }
+      return response.data.data.groups.single;
+    } catch (error) {
+      throw new Error(`Failed to fetch Wiki.js group ${groupId}: ${error}`);
+    }
+  }
+
+  /**
+   * Save the permissions and page rules of a user group
+   */
+  async updateGroup(group: WikiJsGroup): Promise<void> {
+    const mutation = `
+      mutation ($id: Int!, $name: String!, $redirectOnLogin: String!, $permissions: [String]!, $pageRules: [PageRuleInput]!) {
+        groups {
+          update(id: $id, name: $name, redirectOnLogin: $redirectOnLogin, permissions: $permissions, pageRules: $pageRules) {
+            responseResult {
+              succeeded
+              errorCode
+              slug
+              message
+            }
+          }
+        }
+      }
+    `;
+
+    try {
+      const response = await this.client.post('', {
+        query: mutation,
+        variables: {
+          id: group.id,
+          name: group.name,
+          redirectOnLogin: group.redirectOnLogin || '/',
+          permissions: group.permissions || [],
+          pageRules: group.pageRules || [],
+        },
+      });
+
+      if (response.data.errors) {
+        throw new Error(`Wiki.js API error: ${JSON.stringify(response.data.errors)}`);
+      }
+      const result = response.data.data.groups.update;
+      if (!result.responseResult.succeeded) {
+        throw new Error(result.responseResult.message);
+      }
+    } catch (error) {
+      throw new Error(`Failed to update Wiki.js group "${group.name}": ${error}`);
+    }
+  }
+
   /**
    * Query available editors from Wiki.js
    */
@@ -454,6 +560,13 @@ export class WikiJsClient {
     return path;
   }
 
+  /**
+   * Create the Wiki.js path of a blog post (`<space>/blog/YYYY/MM/DD/<slug>`) from its path of `createBlogPostPaths`
+   */
+  static createBlogPostPath(postPath: string, spaceKey?: string): string {
+    return spaceKey ? `${WikiJsClient.sanitizePathSegment(spaceKey)}/${postPath}` : postPath;
+  }
+
   /**
    * Construct the correct asset URL for Wiki.js
    */
@@ -531,9 +644,9 @@ export class WikiJsClient {
     
     // Build tree recursively
     function buildSubTree(parentId: string | null): NavigationItem[] {
-      const children = pages.filter(page => {
+      const children = parentId === null ? rootPages : pages.filter(page => {
         if (!page.ancestors || page.ancestors.length === 0) {
-          return parentId === null;
+          return false;
         }
         const directParent = page.ancestors[page.ancestors.length - 1];
         return directParent && directParent.id === parentId;
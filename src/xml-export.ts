@@ -0,0 +1,505 @@
+import { Parser } from 'htmlparser2';
+import { StringDecoder } from 'string_decoder';
+import * as yauzl from 'yauzl';
+import {
+  ConfluenceComment,
+  ConfluenceContentType,
+  ConfluencePage,
+  ConfluencePageAncestor,
+  ConfluencePageRestrictions,
+  ConfluencePageSpace,
+  ConfluenceRestrictionSubjects,
+} from './types';
+import { AttachmentSource } from './markdown-converter';
+import { resolveEffectiveRestrictions } from './restriction-mapping';
+
+/**
+ * One `<object>` of entities.xml: plain properties, references to other objects and collections of references
+ */
+interface XmlObject {
+  className: string;
+  id: string;
+  properties: Record<string, string>;
+  references: Record<string, string>;
+  collections: Record<string, string[]>;
+}
+
+interface XmlAttachment {
+  id: string;
+  version: string;
+}
+
+/**
+ * Object classes of entities.xml that are needed for the export, everything else is skipped while parsing
+ */
+const EXPORTED_CLASSES = new Set([
+  'Space', 'Page', 'BlogPost', 'BodyContent', 'Attachment', 'Comment', 'ConfluenceUserImpl',
+  'Label', 'Labelling', 'ContentProperty', 'ContentPermission', 'ContentPermissionSet',
+]);
+
+/**
+ * Content properties that describe inline comments
+ */
+const COMMENT_PROPERTIES = new Set(['inline-marker-ref', 'inline-original-selection', 'status']);
+
+/**
+ * Body type of the XHTML storage format (0 is legacy wiki markup)
+ */
+const STORAGE_BODY_TYPE = '2';
+
+/**
+ * A Confluence space (or site) "XML export" archive, read without a Confluence server.
+ * Pages, blog posts, comments, labels and restrictions are rebuilt from entities.xml in the
+ * shape of the REST API, and attachment files are read from the archive.
+ */
+export class ConfluenceXmlExport implements AttachmentSource {
+  private zipFile: yauzl.ZipFile;
+  private entries: Map<string, yauzl.Entry>;
+  private objects = new Map<string, Map<string, XmlObject>>();
+  private bodies = new Map<string, string>();
+  private pages: ConfluencePage[] = [];
+  private attachments = new Map<string, XmlAttachment>();
+  private restrictions = new Map<string, ConfluencePageRestrictions>();
+  private commentProperties = new Map<string, Record<string, string>>();
+
+  private constructor(zipFile: yauzl.ZipFile, entries: Map<string, yauzl.Entry>) {
+    this.zipFile = zipFile;
+    this.entries = entries;
+  }
+
+  /**
+   * Open an export archive and parse its entities.xml
+   */
+  static async open(archivePath: string): Promise<ConfluenceXmlExport> {
+    let archive: ConfluenceXmlExport;
+    try {
+      const zipFile = await openZipFile(archivePath);
+      archive = new ConfluenceXmlExport(zipFile, await readEntries(zipFile));
+    } catch (error) {
+      throw new Error(`Failed to open Confluence export archive ${archivePath}: ${error}`);
+    }
+
+    const entities = archive.entries.get('entities.xml');
+    if (!entities) {
+      archive.close();
+      throw new Error(`${archivePath} is not a Confluence XML export: entities.xml is missing`);
+    }
+
+    console.log(`📦 Reading entities.xml (${Math.round(entities.uncompressedSize / 1024 / 1024)} MB)...`);
+    try {
+      // Bodies are read in a second pass, once it is known which content is current:
+      // keeping the bodies of every historical version would not fit in memory for large exports
+      await archive.parseEntities(entities, object => archive.addObject(object));
+      const contentIds = archive.getCurrentContentIds();
+      console.log(`📦 Reading the bodies of ${contentIds.size} pages, blog posts and comments...`);
+      await archive.parseEntities(entities, object => archive.addBody(object, contentIds));
+    } catch (error) {
+      archive.close();
+      throw new Error(`Failed to parse entities.xml of ${archivePath}: ${error}`);
+    }
+    archive.buildContent();
+    return archive;
+  }
+
+  /**
+   * Spaces contained in the archive
+   */
+  getSpaces(): ConfluencePageSpace[] {
+    return this.getObjects('Space').map(space => ({ key: space.properties.key, name: space.properties.name }));
+  }
+
+  /**
+   * Get the current pages of a space, each parent followed by its children in Confluence order
+   */
+  async getAllPagesFromSpace(spaceKey: string): Promise<ConfluencePage[]> {
+    return this.pages.filter(page => page.type === 'page' && page.space?.key === spaceKey);
+  }
+
+  /**
+   * Get the current blog posts of a space
+   */
+  async getAllBlogPostsFromSpace(spaceKey: string): Promise<ConfluencePage[]> {
+    return this.pages.filter(page => page.type === 'blogpost' && page.space?.key === spaceKey);
+  }
+
+  /**
+   * Get the footer and inline comments of a page, replies after their parent
+   */
+  async getComments(pageId: string): Promise<ConfluenceComment[]> {
+    const comments = this.getObjects('Comment')
+      .filter(comment => this.isCurrent(comment))
+      .filter(comment => (comment.references.containerContent || comment.references.page || comment.references.owner) === pageId)
+      .sort((a, b) => (a.properties.creationDate || '').localeCompare(b.properties.creationDate || ''));
+
+    return comments.map(comment => {
+      const values = this.commentProperties.get(comment.id) || {};
+      return {
+        id: comment.id,
+        body: this.getBody(comment.id),
+        author: this.getUserName(comment.references.creator),
+        created: toIsoDate(comment.properties.creationDate),
+        location: values['inline-marker-ref'] ? 'inline' : 'footer',
+        parentId: comment.references.parent,
+        markerRef: values['inline-marker-ref'],
+        selection: values['inline-original-selection'],
+        resolved: values.status === 'resolved',
+      };
+    });
+  }
+
+  /**
+   * Get the restrictions that apply to a page, including view restrictions inherited from ancestors
+   */
+  async getEffectiveRestrictions(page: ConfluencePage): Promise<ConfluencePageRestrictions> {
+    return resolveEffectiveRestrictions(page, async pageId => this.restrictions.get(pageId) || {
+      read: { users: [], groups: [] },
+      update: { users: [], groups: [] },
+    });
+  }
+
+  /**
+   * Read the latest version of a page attachment from the archive
+   */
+  async readAttachment(pageId: string, filename: string): Promise<Buffer> {
+    const attachment = this.attachments.get(`${pageId}/${filename}`);
+    if (!attachment) {
+      throw new Error(`Attachment "${filename}" of page ${pageId} is not in the export`);
+    }
+
+    // Files are stored as attachments/<page id>/<attachment id>/<version>
+    const directory = `attachments/${pageId}/${attachment.id}`;
+    const entry = this.entries.get(`${directory}/${attachment.version}`)
+      || Array.from(this.entries.values())
+        .filter(candidate => candidate.fileName.startsWith(`${directory}/`))
+        .sort((a, b) => parseInt(b.fileName.split('/').pop()!, 10) - parseInt(a.fileName.split('/').pop()!, 10))[0]
+      || this.entries.get(directory);
+    if (!entry) {
+      throw new Error(`File of attachment "${filename}" of page ${pageId} is missing in the archive`);
+    }
+
+    const stream = await openReadStream(this.zipFile, entry);
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Close the archive file
+   */
+  close(): void {
+    this.zipFile.close();
+  }
+
+  /**
+   * Stream entities.xml through the XML parser and pass every object to the handler
+   */
+  private async parseEntities(entry: yauzl.Entry, onObject: (object: XmlObject) => void): Promise<void> {
+    let current: XmlObject | null = null;
+    let property: string | null = null;
+    let propertyHasId = false;
+    let collection: string | null = null;
+    let text = '';
+
+    const parser = new Parser({
+      onopentag: (name, attributes) => {
+        if (name === 'object') {
+          current = { className: attributes.class, id: '', properties: {}, references: {}, collections: {} };
+        } else if (!current) {
+          return;
+        } else if (name === 'property') {
+          property = attributes.name;
+          propertyHasId = false;
+        } else if (name === 'collection') {
+          collection = attributes.name;
+          current.collections[collection] = [];
+        }
+        text = '';
+      },
+      ontext: (data) => {
+        text += data;
+      },
+      onclosetag: (name) => {
+        if (!current) {
+          return;
+        }
+        if (name === 'id') {
+          const id = text.trim();
+          if (property) {
+            current.references[property] = id;
+            propertyHasId = true;
+          } else if (collection) {
+            current.collections[collection].push(id);
+          } else {
+            current.id = id;
+          }
+        } else if (name === 'property' && property) {
+          if (!propertyHasId) {
+            current.properties[property] = text;
+          }
+          property = null;
+        } else if (name === 'collection') {
+          collection = null;
+        } else if (name === 'object') {
+          onObject(current);
+          current = null;
+        }
+        text = '';
+      },
+    }, { xmlMode: true });
+
+    const stream = await openReadStream(this.zipFile, entry);
+    const decoder = new StringDecoder('utf8');
+    for await (const chunk of stream) {
+      parser.write(decoder.write(chunk as Buffer));
+    }
+    parser.write(decoder.end());
+    parser.end();
+  }
+
+  /**
+   * Keep an object needed for the export (first pass, bodies are skipped)
+   */
+  private addObject(object: XmlObject): void {
+    if (!EXPORTED_CLASSES.has(object.className) || object.className === 'BodyContent') {
+      return;
+    }
+    if (object.className === 'ContentProperty' && !COMMENT_PROPERTIES.has(object.properties.name)) {
+      return;
+    }
+    // Old versions of pages reference the current version
+    if (object.references.originalVersion) {
+      return;
+    }
+
+    let objects = this.objects.get(object.className);
+    if (!objects) {
+      objects = new Map();
+      this.objects.set(object.className, objects);
+    }
+    objects.set(object.id, object);
+  }
+
+  /**
+   * Keep the body of current content (second pass). Bodies are the bulk of the file,
+   * only their text and owner are kept.
+   */
+  private addBody(object: XmlObject, contentIds: Set<string>): void {
+    if (object.className !== 'BodyContent') {
+      return;
+    }
+    const contentId = object.references.content;
+    if (contentId && contentIds.has(contentId) && object.properties.body !== undefined && (object.properties.bodyType || STORAGE_BODY_TYPE) === STORAGE_BODY_TYPE) {
+      this.bodies.set(contentId, object.properties.body);
+    }
+  }
+
+  /**
+   * IDs of the current pages, blog posts and comments, whose bodies are needed
+   */
+  private getCurrentContentIds(): Set<string> {
+    return new Set(['Page', 'BlogPost', 'Comment']
+      .flatMap(className => this.getObjects(className))
+      .filter(object => this.isCurrent(object))
+      .map(object => object.id));
+  }
+
+  /**
+   * Turn the parsed objects into pages, attachment and restriction lookups
+   */
+  private buildContent(): void {
+    const spaces = new Map(this.getObjects('Space').map(space => [space.id, { key: space.properties.key, name: space.properties.name }]));
+    const pageObjects = this.objects.get('Page') || new Map<string, XmlObject>();
+
+    // Labels of every page (personal labels are left out)
+    const labels = new Map<string, string[]>();
+    const labelNames = new Map(this.getObjects('Label')
+      .filter(label => !label.properties.namespace || ['global', 'team'].includes(label.properties.namespace))
+      .map(label => [label.id, label.properties.name]));
+    for (const labelling of this.getObjects('Labelling')) {
+      const name = labelNames.get(labelling.references.label);
+      if (name) {
+        const contentId = labelling.references.content;
+        labels.set(contentId, [...(labels.get(contentId) || []), name]);
+      }
+    }
+
+    const toPage = (object: XmlObject, type: ConfluenceContentType): ConfluencePage => {
+      // Ancestors are rebuilt from the parent chain, the ancestors collection is missing in older exports
+      const ancestors: ConfluencePageAncestor[] = [];
+      let parent = pageObjects.get(object.references.parent);
+      while (parent && !ancestors.some(ancestor => ancestor.id === parent!.id)) {
+        ancestors.unshift({ id: parent.id, title: parent.properties.title });
+        parent = pageObjects.get(parent.references.parent);
+      }
+
+      const lastModifier = this.getUserName(object.references.lastModifier);
+      return {
+        id: object.id,
+        title: object.properties.title || `Untitled ${object.id}`,
+        body: { storage: { value: this.getBody(object.id) } },
+        _links: {
+          webui: type === 'blogpost' ? `/pages/viewblogpost.action?pageId=${object.id}` : `/pages/viewpage.action?pageId=${object.id}`,
+        },
+        ancestors,
+        version: {
+          number: parseInt(object.properties.version, 10) || 1,
+          when: toIsoDate(object.properties.lastModificationDate),
+          by: lastModifier ? { displayName: lastModifier, username: lastModifier } : undefined,
+        },
+        space: spaces.get(object.references.space),
+        type,
+        history: {
+          createdDate: toIsoDate(object.properties.creationDate),
+          createdBy: object.references.creator ? { displayName: this.getUserName(object.references.creator) } : undefined,
+        },
+        labels: labels.get(object.id) || [],
+      };
+    };
+
+    // Pages are ordered like the page tree: parents first, siblings by their position
+    const currentPages = Array.from(pageObjects.values()).filter(page => this.isCurrent(page));
+    const childrenById = new Map<string, XmlObject[]>();
+    const roots: XmlObject[] = [];
+    for (const page of currentPages) {
+      const parentId = page.references.parent;
+      if (parentId && pageObjects.has(parentId) && this.isCurrent(pageObjects.get(parentId)!)) {
+        childrenById.set(parentId, [...(childrenById.get(parentId) || []), page]);
+      } else {
+        roots.push(page);
+      }
+    }
+    const byPosition = (a: XmlObject, b: XmlObject) =>
+      (parseInt(a.properties.position, 10) || 0) - (parseInt(b.properties.position, 10) || 0)
+      || (a.properties.title || '').localeCompare(b.properties.title || '');
+    const addWithDescendants = (page: XmlObject) => {
+      this.pages.push(toPage(page, 'page'));
+      (childrenById.get(page.id) || []).sort(byPosition).forEach(addWithDescendants);
+    };
+    roots.sort(byPosition).forEach(addWithDescendants);
+
+    this.pages.push(...this.getObjects('BlogPost')
+      .filter(post => this.isCurrent(post))
+      .map(post => toPage(post, 'blogpost'))
+      .sort((a, b) => (a.history?.createdDate || '').localeCompare(b.history?.createdDate || '')));
+
+    // Latest version of every attachment by page and file name
+    for (const attachment of this.getObjects('Attachment').filter(object => this.isCurrent(object))) {
+      const containerId = attachment.references.containerContent || attachment.references.content;
+      const filename = attachment.properties.title || attachment.properties.fileName;
+      if (!containerId || !filename) {
+        continue;
+      }
+      const key = `${containerId}/${filename}`;
+      const version = attachment.properties.version || attachment.properties.attachmentVersion || '1';
+      const existing = this.attachments.get(key);
+      if (!existing || parseInt(version, 10) > parseInt(existing.version, 10)) {
+        this.attachments.set(key, { id: attachment.id, version });
+      }
+    }
+
+    // Inline comment details are content properties of the comment
+    for (const property of this.getObjects('ContentProperty')) {
+      const contentId = property.references.content;
+      const values = this.commentProperties.get(contentId) || {};
+      values[property.properties.name] = property.properties.stringValue || '';
+      this.commentProperties.set(contentId, values);
+    }
+
+    // View and edit restrictions are content permissions, grouped in one set per page and type
+    const permissionSets = this.objects.get('ContentPermissionSet') || new Map<string, XmlObject>();
+    for (const permission of this.getObjects('ContentPermission')) {
+      const permissionSet = permissionSets.get(permission.references.owningSet);
+      const contentId = permissionSet?.references.owningContent;
+      if (!contentId) {
+        continue;
+      }
+      const restrictions = this.restrictions.get(contentId) || { read: { users: [], groups: [] }, update: { users: [], groups: [] } };
+      const type = permission.properties.type || permissionSet.properties.type;
+      const subjects: ConfluenceRestrictionSubjects = type === 'View' ? restrictions.read : restrictions.update;
+      if (permission.properties.groupName) {
+        subjects.groups.push(permission.properties.groupName);
+      } else if (permission.references.userSubject) {
+        const username = this.getUserName(permission.references.userSubject);
+        subjects.users.push({ userKey: permission.references.userSubject, username, displayName: username });
+      }
+      this.restrictions.set(contentId, restrictions);
+    }
+
+    console.log(`📄 Found ${this.pages.length} pages and blog posts, ${this.attachments.size} attachments`);
+  }
+
+  private getObjects(className: string): XmlObject[] {
+    return Array.from(this.objects.get(className)?.values() || []);
+  }
+
+  private getBody(contentId: string): string {
+    return this.bodies.get(contentId) || '';
+  }
+
+  /**
+   * Name of a user by user key (the export contains no display names)
+   */
+  private getUserName(userKey?: string): string | undefined {
+    if (!userKey) {
+      return undefined;
+    }
+    return this.objects.get('ConfluenceUserImpl')?.get(userKey)?.properties.name || userKey;
+  }
+
+  /**
+   * Whether content is the published version (not a draft and not in the trash)
+   */
+  private isCurrent(object: XmlObject): boolean {
+    const status = object.properties.contentStatus;
+    return !status || status === 'current';
+  }
+}
+
+/**
+ * Convert an export timestamp (`2023-04-05 10:20:30.000`) to ISO 8601
+ */
+function toIsoDate(value?: string): string | undefined {
+  return value ? value.trim().replace(' ', 'T') : undefined;
+}
+
+function openZipFile(archivePath: string): Promise<yauzl.ZipFile> {
+  return new Promise((resolve, reject) => {
+    yauzl.open(archivePath, { lazyEntries: true, autoClose: false }, (error, zipFile) => {
+      if (error || !zipFile) {
+        reject(error);
+      } else {
+        resolve(zipFile);
+      }
+    });
+  });
+}
+
+/**
+ * Read the central directory of the archive, so files can be opened by name
+ */
+function readEntries(zipFile: yauzl.ZipFile): Promise<Map<string, yauzl.Entry>> {
+  return new Promise((resolve, reject) => {
+    const entries = new Map<string, yauzl.Entry>();
+    zipFile.on('entry', (entry: yauzl.Entry) => {
+      entries.set(entry.fileName, entry);
+      zipFile.readEntry();
+    });
+    zipFile.on('end', () => resolve(entries));
+    zipFile.on('error', reject);
+    zipFile.readEntry();
+  });
+}
+
+function openReadStream(zipFile: yauzl.ZipFile, entry: yauzl.Entry): Promise<NodeJS.ReadableStream> {
+  return new Promise((resolve, reject) => {
+    zipFile.openReadStream(entry, (error, stream) => {
+      if (error || !stream) {
+        reject(error);
+      } else {
+        resolve(stream);
+      }
+    });
+  });
+}
@@ -39,6 +39,49 @@ npm start convert-advanced -- \
     --bullet-marker "+" \
     --preview
 
+echo ""
+echo "5️⃣ Checking storage format samples against the expected Markdown..."
+failures=0
+
+# Compare a converted sample with its expected Markdown
+check_sample() {
+    local expected="$1"
+    local actual="$2"
+    if diff -u "$expected" "$actual"; then
+        echo "  ✅ $(basename "$expected")"
+    else
+        echo "  ❌ $actual differs from $expected"
+        failures=$((failures + 1))
+    fi
+}
+
+for sample in task-lists expand panels toc table-cells; do
+    npm start --silent convert-html -- --input "tests/samples/test-$sample.html" --output "tests/outputs/test-$sample.md" > /dev/null
+    check_sample "tests/samples/test-$sample.expected.md" "tests/outputs/test-$sample.md"
+done
+
+for style in wikijs mkdocs; do
+    npm start --silent convert-html -- --input tests/samples/test-panels.html --callout-style "$style" --output "tests/outputs/test-panels.$style.md" > /dev/null
+    check_sample "tests/samples/test-panels.$style.expected.md" "tests/outputs/test-panels.$style.md"
+done
+
+# Page lists need the page tree of an export, which convert-html does not have
+node -e '
+const fs = require("fs");
+const { MarkdownConverter } = require("./dist/markdown-converter");
+const { PageTree } = require("./dist/page-tree");
+const pages = JSON.parse(fs.readFileSync("tests/samples/test-page-lists.json", "utf-8"));
+const html = fs.readFileSync("tests/samples/test-page-lists.html", "utf-8");
+fs.writeFileSync("tests/outputs/test-page-lists.md", new MarkdownConverter().convertToMarkdown(html, { pageId: "2", pageTree: new PageTree(pages) }));
+'
+check_sample tests/samples/test-page-lists.expected.md tests/outputs/test-page-lists.md
+
+if [ "$failures" -gt 0 ]; then
+    echo ""
+    echo "❌ $failures samples differ from the expected Markdown"
+    exit 1
+fi
+
 echo ""
 echo "✅ All tests completed!"
 echo ""